@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { runCodemod } from "./codemod";
+
+process.exitCode = runCodemod(process.argv.slice(2));
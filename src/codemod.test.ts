@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runCodemod } from "./codemod";
+
+const source = `import { globalStyle } from "@vanilla-extract/css";
+import { button } from "./button.css";
+
+globalStyle(\`.\${button.classNames.variants.size.sm} svg\`, { width: "16px" });
+`;
+
+describe("runCodemod", () => {
+  const log = vi.spyOn(console, "log").mockImplementation(() => {});
+  const error = vi.spyOn(console, "error").mockImplementation(() => {});
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    log.mockClear();
+    error.mockClear();
+    directory = mkdtempSync(join(tmpdir(), "global-recipes-codemod-"));
+    file = join(directory, "icon.css.ts");
+    writeFileSync(file, source);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("migrates the files under the given paths", () => {
+    expect(runCodemod([directory])).toBe(0);
+
+    expect(readFileSync(file, "utf8")).toContain("globalRecipe(");
+    expect(log).toHaveBeenLastCalledWith(
+      "Migrated 1 globalStyle calls, skipped 0. Run your formatter on the changed files.",
+    );
+  });
+
+  it("does not write files with --dry-run", () => {
+    expect(runCodemod(["--dry-run", file])).toBe(0);
+
+    expect(readFileSync(file, "utf8")).toBe(source);
+    expect(log).toHaveBeenLastCalledWith("Would migrate 1 globalStyle calls, skipped 0.");
+  });
+
+  it("prints the usage with --help", () => {
+    expect(runCodemod(["--help"])).toBe(0);
+
+    expect(log).toHaveBeenCalledWith(expect.stringMatching(/^Usage: global-recipes-codemod/));
+  });
+
+  it("prints the usage and fails without paths", () => {
+    expect(runCodemod(["--dry-run"])).toBe(1);
+
+    expect(log).toHaveBeenCalledWith(expect.stringMatching(/^Usage: global-recipes-codemod/));
+  });
+
+  it("reports missing paths and fails without migrating", () => {
+    const missing = join(directory, "missing");
+
+    expect(runCodemod([missing, file])).toBe(1);
+
+    expect(error).toHaveBeenCalledWith(`global-recipes-codemod: no such file or directory "${missing}"`);
+    expect(readFileSync(file, "utf8")).toBe(source);
+  });
+});
@@ -0,0 +1,72 @@
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import { join, relative } from "node:path";
+import { migrateGlobalStyle } from "./migrateGlobalStyle";
+
+const usage = `Usage: global-recipes-codemod [--dry-run] <paths...>
+
+Rewrites globalStyle calls interpolating recipe class names into globalRecipe calls,
+in every .css.ts file under the given files and directories.
+
+Options:
+  --dry-run  Report what would change without writing files
+  --help     Show this message`;
+
+/** Collects `.css.ts` files, skipping `node_modules` and hidden directories */
+function collectFiles(path: string, files: string[] = []): string[] {
+  if (statSync(path).isDirectory()) {
+    for (const entry of readdirSync(path)) {
+      if (entry === "node_modules" || entry.startsWith(".")) continue;
+      collectFiles(join(path, entry), files);
+    }
+  } else if (path.endsWith(".css.ts")) {
+    files.push(path);
+  }
+  return files;
+}
+
+/**
+ * Runs the codemod with command line arguments, and returns the exit code.
+ *
+ * @example
+ * runCodemod(["--dry-run", "src"]); // 0
+ */
+export function runCodemod(args: string[]): number {
+  const dryRun = args.includes("--dry-run");
+  const paths = args.filter((arg) => !arg.startsWith("--"));
+  if (args.includes("--help") || paths.length === 0) {
+    console.log(usage);
+    return paths.length === 0 && !args.includes("--help") ? 1 : 0;
+  }
+  const missingPaths = paths.filter((path) => !existsSync(path));
+  if (missingPaths.length > 0) {
+    for (const path of missingPaths) console.error(`global-recipes-codemod: no such file or directory "${path}"`);
+    return 1;
+  }
+
+  let migratedCalls = 0;
+  let skippedCalls = 0;
+  for (const file of paths.flatMap((path) => collectFiles(path))) {
+    const name = relative(process.cwd(), file);
+    const source = readFileSync(file, "utf8");
+    const migration = migrateGlobalStyle(source, file);
+
+    if (migration.migratedCalls > 0) {
+      if (!dryRun) writeFileSync(file, migration.output);
+      console.log(
+        `${name}: ${migration.migratedCalls} globalStyle calls -> ${migration.generatedCalls} globalRecipe calls`,
+      );
+    }
+    for (const { line, column, reason } of migration.skipped) {
+      console.log(`${name}:${line}:${column}: skipped, ${reason}`);
+    }
+
+    migratedCalls += migration.migratedCalls;
+    skippedCalls += migration.skipped.length;
+  }
+
+  console.log(
+    `${dryRun ? "Would migrate" : "Migrated"} ${migratedCalls} globalStyle calls, skipped ${skippedCalls}.` +
+      (migratedCalls > 0 && !dryRun ? " Run your formatter on the changed files." : ""),
+  );
+  return 0;
+}
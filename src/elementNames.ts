@@ -0,0 +1,40 @@
+/** HTML, SVG and MathML element names, lowercased */
+const elementNames = new Set(
+  [
+    // HTML
+    "a abbr address area article aside audio b base bdi bdo blockquote body br button canvas caption cite code col",
+    "colgroup data datalist dd del details dfn dialog div dl dt em embed fieldset figcaption figure footer form h1 h2",
+    "h3 h4 h5 h6 head header hgroup hr html i iframe img input ins kbd label legend li link main map mark menu meta",
+    "meter nav noscript object ol optgroup option output p picture pre progress q rp rt ruby s samp script search",
+    "section select selectedcontent slot small source span strong style sub summary sup table tbody td template",
+    "textarea tfoot th thead time title tr track u ul var video wbr",
+    // Obsolete HTML, still matched by type selectors
+    "acronym applet basefont bgsound big blink center dir font frame frameset image keygen marquee menuitem nobr",
+    "noembed noframes param plaintext rb rtc strike tt xmp",
+    // SVG
+    "animate animatemotion animatetransform circle clippath defs desc ellipse feblend fecolormatrix",
+    "fecomponenttransfer fecomposite feconvolvematrix fediffuselighting fedisplacementmap fedistantlight",
+    "fedropshadow feflood fefunca fefuncb fefuncg fefuncr fegaussianblur feimage femerge femergenode femorphology",
+    "feoffset fepointlight fespecularlighting fespotlight fetile feturbulence filter foreignobject g line",
+    "lineargradient marker mask metadata mpath path pattern polygon polyline radialgradient rect set stop svg",
+    "switch symbol text textpath tspan use view",
+    // MathML
+    "annotation annotation-xml math merror mfrac mi mmultiscripts mn mo mover mpadded mphantom mprescripts mroot",
+    "mrow ms mspace msqrt mstyle msub msubsup msup mtable mtd mtext mtr munder munderover semantics",
+  ]
+    .join(" ")
+    .split(" "),
+);
+
+/**
+ * Whether a type selector can match an element: a standard HTML, SVG or MathML element,
+ * or a custom element (which contains a `-`).
+ *
+ * @example
+ * isElementName("article"); // true
+ * isElementName("my-dialog"); // true
+ * isElementName("theme_dark"); // false
+ */
+export function isElementName(name: string): boolean {
+  return elementNames.has(name.toLowerCase()) || name.includes("-");
+}
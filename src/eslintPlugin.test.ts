@@ -0,0 +1,237 @@
+import { describe, it, expect } from "vitest";
+import { Linter, RuleTester } from "eslint";
+import plugin from "./eslintPlugin";
+
+const header = `import { globalRecipe } from "global-recipes";\n`;
+const ruleTester = new RuleTester();
+
+describe("eslint plugin", () => {
+  ruleTester.run("no-unused-selector-generators", plugin.rules!["no-unused-selector-generators"], {
+    valid: [
+      header +
+        `globalRecipe({
+          recipe: button,
+          selectorGenerators: { "&": (v) => v + " svg", hover: (v) => v + ":hover svg" },
+          compoundVariants: [{ variants: { size: "sm" }, style: { selectors: { hover: { fill: "red" } } } }],
+        });`,
+      // Styles passed by reference may use any generator
+      header +
+        `globalRecipe({
+          recipe: button,
+          selectorGenerators: { "&": (v) => v + " svg", hover: (v) => v + ":hover svg" },
+          base: sharedStyle,
+        });`,
+      // Compound variants passed by reference may use any generator
+      header +
+        `globalRecipe({
+          recipe: button,
+          selectorGenerators: { "&": (v) => v + " svg", hover: (v) => v + ":hover svg" },
+          compoundVariants: entries,
+        });`,
+      header +
+        `const hoverEntry = { variants: { size: "sm" }, style: { selectors: { hover: { fill: "red" } } } };
+        globalRecipe({
+          recipe: button,
+          selectorGenerators: { "&": (v) => v + " svg", hover: (v) => v + ":hover svg" },
+          compoundVariants: [hoverEntry],
+        });`,
+      header +
+        `globalRecipe({
+          recipe: button,
+          selectorGenerators: { "&": (v) => v + " svg", hover: (v) => v + ":hover svg" },
+          matrix: sizeMatrix,
+        });`,
+      // Calls not imported from global-recipes are ignored
+      `globalRecipe({ recipe: button, selectorGenerators: { "&": "& svg", hover: "&:hover svg" } });`,
+    ],
+    invalid: [
+      {
+        code:
+          header +
+          `globalRecipe({
+  recipe: button,
+  selectorGenerators: { "&": "& svg", hover: "&:hover svg", focus: "&:focus svg" },
+  variants: { size: { sm: { width: 16, selectors: { focus: { width: 20 } } } } },
+});`,
+        output:
+          header +
+          `globalRecipe({
+  recipe: button,
+  selectorGenerators: { "&": "& svg", focus: "&:focus svg" },
+  variants: { size: { sm: { width: 16, selectors: { focus: { width: 20 } } } } },
+});`,
+        errors: [{ messageId: "unused", data: { name: "hover" } }],
+      },
+      {
+        // The returned handle may use the key, so its removal is only suggested
+        code:
+          header +
+          `export const icons = globalRecipe({
+  recipe: button,
+  selectorGenerators: { "&": "& svg", hover: "&:hover svg" },
+});`,
+        output: null,
+        errors: [
+          {
+            messageId: "unused",
+            data: { name: "hover" },
+            suggestions: [
+              {
+                messageId: "remove",
+                data: { name: "hover" },
+                output:
+                  header +
+                  `export const icons = globalRecipe({
+  recipe: button,
+  selectorGenerators: { "&": "& svg" },
+});`,
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  });
+
+  ruleTester.run("no-duplicate-compound-variants", plugin.rules!["no-duplicate-compound-variants"], {
+    valid: [
+      header +
+        `globalRecipe({
+          recipe: button,
+          selectorGenerators: { "&": "& svg" },
+          compoundVariants: [
+            { variants: { size: "sm" }, style: { width: 16 } },
+            { variants: { size: "sm" }, conditions: { disabled: true }, style: { opacity: 0.5 } },
+            { variants: { size: sizeVariable }, style: { width: 20 } },
+          ],
+        });`,
+    ],
+    invalid: [
+      {
+        code:
+          header +
+          `globalRecipe({
+            recipe: button,
+            selectorGenerators: { "&": "& svg" },
+            compoundVariants: [
+              { variants: { size: ["sm", "md"], tone: "danger" }, style: { width: 16 } },
+              { variants: { size: "lg" }, style: { width: 24 } },
+              { variants: { tone: "danger", size: ["md", "sm"], hierarchy: undefined }, style: { fill: "red" } },
+            ],
+          });`,
+        errors: [{ messageId: "duplicate", data: { index: "2", firstIndex: "0" } }],
+      },
+    ],
+  });
+
+  ruleTester.run("no-ignored-variant-selector", plugin.rules!["no-ignored-variant-selector"], {
+    valid: [
+      header +
+        `globalRecipe({
+          recipe: button,
+          selectorGenerators: { "&": (v) => \`\${v} svg\`, focus: function (v) { return v + ":focus svg"; } },
+          slots: { icon: "& [data-slot=icon]" },
+        });`,
+    ],
+    invalid: [
+      {
+        code:
+          header +
+          `globalRecipe({
+            recipe: button,
+            selectorGenerators: { "&": () => ".icon", hover: (v) => ".icon:hover" },
+            slots: { label: (v) => "label" },
+          });`,
+        errors: [
+          { messageId: "ignored", data: { name: "&" } },
+          { messageId: "ignored", data: { name: "hover" } },
+          { messageId: "ignored", data: { name: "label" } },
+        ],
+      },
+    ],
+  });
+
+  ruleTester.run("no-undefined-variant-values", plugin.rules!["no-undefined-variant-values"], {
+    valid: [
+      header +
+        `globalRecipe({
+          recipe: button,
+          selectorGenerators: { "&": "& svg" },
+          compoundVariants: [{ variants: { size: "sm", tone: { not: "danger" } }, style: { width: 16 } }],
+        });`,
+    ],
+    invalid: [
+      {
+        code:
+          header +
+          `globalRecipe({
+  recipe: button,
+  selectorGenerators: { "&": "& svg" },
+  compoundVariants: [{ variants: { size: "sm", tone: undefined }, style: { width: 16 } }],
+});`,
+        output:
+          header +
+          `globalRecipe({
+  recipe: button,
+  selectorGenerators: { "&": "& svg" },
+  compoundVariants: [{ variants: { size: "sm" }, style: { width: 16 } }],
+});`,
+        errors: [{ messageId: "undefinedValue", data: { name: "tone" } }],
+      },
+      {
+        code:
+          header +
+          `globalRecipe({
+  recipe: button,
+  selectorGenerators: { "&": "& svg" },
+  compoundVariants: [
+    {
+      variants: {
+        size: undefined,
+        tone: "danger",
+      },
+      style: { fill: "red" },
+    },
+  ],
+});`,
+        output:
+          header +
+          `globalRecipe({
+  recipe: button,
+  selectorGenerators: { "&": "& svg" },
+  compoundVariants: [
+    {
+      variants: {
+        tone: "danger",
+      },
+      style: { fill: "red" },
+    },
+  ],
+});`,
+        errors: [{ messageId: "undefinedValue", data: { name: "size" } }],
+      },
+    ],
+  });
+
+  it("enables every rule in the recommended flat config", () => {
+    const messages = new Linter().verify(
+      header +
+        `globalRecipe({
+          recipe: button,
+          selectorGenerators: { "&": () => ".icon", hover: "&:hover svg" },
+          compoundVariants: [
+            { variants: { size: "sm", tone: undefined }, style: { width: 16 } },
+            { variants: { size: "sm" }, style: { width: 20 } },
+          ],
+        });`,
+      [plugin.configs.recommended],
+    );
+
+    expect(messages.map(({ ruleId }) => ruleId)).toEqual([
+      "global-recipes/no-ignored-variant-selector",
+      "global-recipes/no-unused-selector-generators",
+      "global-recipes/no-undefined-variant-values",
+      "global-recipes/no-duplicate-compound-variants",
+    ]);
+  });
+});
@@ -0,0 +1,346 @@
+import type { ESLint, Linter, Rule } from "eslint";
+import type { CallExpression, Expression, Node, ObjectExpression, Pattern, Property } from "estree";
+
+/** Functions taking `globalRecipe` options as their first argument */
+const optionFunctions = new Set(["globalRecipe", "planGlobalRecipe", "renderGlobalRecipeCss"]);
+/** Options holding generators or names rather than styles */
+const nonStyleOptions = new Set(["recipe", "selectorGenerators", "slots", "states", "scopes", "conditions"]);
+
+const getPropertyName = (property: Property): string | undefined => {
+  if (!property.computed && property.key.type === "Identifier") return property.key.name;
+  if (property.key.type === "Literal" && typeof property.key.value === "string") return property.key.value;
+  return undefined;
+};
+
+const getProperty = (object: ObjectExpression, name: string): Property | undefined =>
+  object.properties.find(
+    (property): property is Property => property.type === "Property" && getPropertyName(property) === name,
+  );
+
+const getObject = (object: ObjectExpression, name: string): ObjectExpression | undefined => {
+  const value = getProperty(object, name)?.value;
+  return value?.type === "ObjectExpression" ? value : undefined;
+};
+
+const isUndefined = (node: Expression | Pattern): boolean => node.type === "Identifier" && node.name === "undefined";
+
+/** Whether a style position holds a value whose contents cannot be read, e.g. a shared style variable */
+const isOpaqueStyle = (node: Expression | Pattern): boolean => {
+  if (node.type === "ArrowFunctionExpression") {
+    return node.body.type === "BlockStatement" || isOpaqueStyle(node.body);
+  }
+  return (
+    (node.type === "Identifier" && !isUndefined(node)) ||
+    node.type === "MemberExpression" ||
+    node.type === "CallExpression" ||
+    node.type === "ConditionalExpression" ||
+    node.type === "FunctionExpression"
+  );
+};
+
+/** Calls `visit` on every node below `node`, skipping the parent links ESLint adds */
+const walk = (node: Node, visit: (node: Node) => void): void => {
+  visit(node);
+  for (const [key, value] of Object.entries(node)) {
+    if (key === "parent") continue;
+    for (const child of Array.isArray(value) ? value : [value]) {
+      if (child && typeof child === "object" && typeof child.type === "string") walk(child, visit);
+    }
+  }
+};
+
+/** Removes a property along with its separating comma */
+const removeProperty = (context: Rule.RuleContext, fixer: Rule.RuleFixer, property: Property): Rule.Fix => {
+  const { sourceCode } = context;
+  const next = sourceCode.getTokenAfter(property);
+  if (next?.value === ",") {
+    // Keep the layout: `{ a, b, c }` becomes `{ a, c }`, and a property on its own line drops the line
+    const following = sourceCode.getTokenAfter(next);
+    if (following && following.loc.start.line === next.loc.end.line) {
+      return fixer.removeRange([property.range![0], following.range[0]]);
+    }
+    return fixer.removeRange([sourceCode.getTokenBefore(property)!.range[1], next.range[1]]);
+  }
+  const previous = sourceCode.getTokenBefore(property);
+  return previous?.value === ","
+    ? fixer.removeRange([previous.range[0], property.range![1]])
+    : fixer.remove(property as Rule.Node);
+};
+
+/** A call of one of the option functions, with the name it is imported as from `global-recipes` */
+interface OptionFunctionCall {
+  node: CallExpression & Rule.NodeParentExtension;
+  importedName: string;
+}
+
+/**
+ * Creates a rule that inspects the inline options object of every `globalRecipe`, `planGlobalRecipe`
+ * and `renderGlobalRecipeCss` call imported from `global-recipes`.
+ */
+const createRule = (
+  meta: Rule.RuleMetaData,
+  check: (context: Rule.RuleContext, options: ObjectExpression, call: OptionFunctionCall) => void,
+): Rule.RuleModule => ({
+  meta,
+  create(context) {
+    /** Imported names of the option functions, by local name */
+    const localNames = new Map<string, string>();
+    return {
+      ImportDeclaration(node) {
+        if (node.source.value !== "global-recipes") return;
+        for (const specifier of node.specifiers) {
+          if (
+            specifier.type === "ImportSpecifier" &&
+            specifier.imported.type === "Identifier" &&
+            optionFunctions.has(specifier.imported.name)
+          ) {
+            localNames.set(specifier.local.name, specifier.imported.name);
+          }
+        }
+      },
+      CallExpression(node) {
+        const [options] = node.arguments;
+        if (
+          node.callee.type === "Identifier" &&
+          localNames.has(node.callee.name) &&
+          options?.type === "ObjectExpression"
+        ) {
+          check(context, options, { node, importedName: localNames.get(node.callee.name)! });
+        }
+      },
+    };
+  },
+});
+
+/**
+ * Reports `selectorGenerators` keys that no `selectors` block uses. Bails out when styles, variant
+ * groups, compound variant entries or the matrix are spread or passed by reference, as their selectors
+ * cannot be read. When the handle `globalRecipe` returns is
+ * used, the keys may be used through it, so removing them is only suggested.
+ */
+const noUnusedSelectorGenerators = createRule(
+  {
+    type: "suggestion",
+    docs: { description: "Disallow selector generators that no style uses" },
+    fixable: "code",
+    hasSuggestions: true,
+    schema: [],
+    messages: {
+      unused: 'Selector generator "{{ name }}" is not used by any `selectors` block.',
+      remove: 'Remove selector generator "{{ name }}".',
+    },
+  },
+  (context, options, call) => {
+    const generators = getObject(options, "selectorGenerators");
+    if (!generators) return;
+
+    const usedKeys = new Set<string>();
+    let opaque = false;
+    for (const option of options.properties) {
+      if (option.type === "SpreadElement") return;
+      const name = getPropertyName(option);
+      if (nonStyleOptions.has(name ?? "")) continue;
+      // Options that are not inline literals may hold any selectors
+      if (name === "variants") {
+        const groups = option.value.type === "ObjectExpression" ? option.value.properties : [];
+        opaque ||= option.value.type !== "ObjectExpression";
+        for (const group of groups) {
+          const values = group.type === "Property" && group.value.type === "ObjectExpression" ? group.value : undefined;
+          opaque ||=
+            !values || values.properties.some((value) => value.type !== "Property" || isOpaqueStyle(value.value));
+        }
+      }
+      if (name === "compoundVariants") {
+        opaque ||=
+          option.value.type !== "ArrayExpression" ||
+          option.value.elements.some((entry) => entry !== null && entry.type !== "ObjectExpression");
+      }
+      if (name === "matrix") opaque ||= option.value.type !== "ObjectExpression";
+      walk(option, (node) => {
+        if (node.type === "SpreadElement") opaque = true;
+        if (node.type !== "Property") return;
+        const name = getPropertyName(node);
+        if (name === "style" || name === "base" || name === "selectors") opaque ||= isOpaqueStyle(node.value);
+        if (name !== "selectors" || node.value.type !== "ObjectExpression") return;
+        for (const selector of node.value.properties) {
+          const key = selector.type === "Property" ? getPropertyName(selector) : undefined;
+          if (key === undefined) opaque = true;
+          else usedKeys.add(key);
+        }
+      });
+    }
+    if (opaque) return;
+
+    // The handle's `selectorFor` and `base` take generator keys too
+    const handleUsed = call.importedName === "globalRecipe" && call.node.parent.type !== "ExpressionStatement";
+    for (const generator of generators.properties) {
+      const name = generator.type === "Property" ? getPropertyName(generator) : undefined;
+      if (generator.type !== "Property" || name === undefined || name === "&" || usedKeys.has(name)) continue;
+      const fix = (fixer: Rule.RuleFixer) => removeProperty(context, fixer, generator);
+      context.report({
+        node: generator,
+        messageId: "unused",
+        data: { name },
+        ...(handleUsed ? { suggest: [{ messageId: "remove", data: { name }, fix }] } : { fix }),
+      });
+    }
+  },
+);
+
+/** Serializes a literal value so that equal selections compare equal, or returns `undefined` */
+const serializeStatic = (node: Expression | Pattern): string | undefined => {
+  if (node.type === "Literal") return JSON.stringify(node.value);
+  if (isUndefined(node)) return "undefined";
+  if (node.type === "ArrayExpression") {
+    const items = node.elements.map((element) =>
+      element && element.type !== "SpreadElement" ? serializeStatic(element) : undefined,
+    );
+    return items.every((item) => item !== undefined) ? `[${[...new Set(items)].sort().join(",")}]` : undefined;
+  }
+  if (node.type === "ObjectExpression") {
+    const entries: string[] = [];
+    for (const property of node.properties) {
+      const name = property.type === "Property" ? getPropertyName(property) : undefined;
+      if (property.type !== "Property" || name === undefined) return undefined;
+      if (isUndefined(property.value)) continue;
+      const value = serializeStatic(property.value);
+      if (value === undefined) return undefined;
+      entries.push(`${JSON.stringify(name)}:${value}`);
+    }
+    return `{${entries.sort().join(",")}}`;
+  }
+  return undefined;
+};
+
+/** Reports compound variants matching the same selection as an earlier entry */
+const noDuplicateCompoundVariants = createRule(
+  {
+    type: "problem",
+    docs: { description: "Disallow compound variants with the same variants and conditions" },
+    schema: [],
+    messages: {
+      duplicate:
+        "compoundVariants[{{ index }}] matches the same variants as compoundVariants[{{ firstIndex }}]. Merge their styles into one entry.",
+    },
+  },
+  (context, options) => {
+    const compoundVariants = getProperty(options, "compoundVariants")?.value;
+    if (compoundVariants?.type !== "ArrayExpression") return;
+
+    const seen = new Map<string, number>();
+    compoundVariants.elements.forEach((entry, index) => {
+      if (entry?.type !== "ObjectExpression") return;
+      const variants = getProperty(entry, "variants")?.value;
+      const conditions = getProperty(entry, "conditions")?.value;
+      const key = serializeStatic(variants ?? { type: "ObjectExpression", properties: [] });
+      const conditionsKey = serializeStatic(conditions ?? { type: "ObjectExpression", properties: [] });
+      if (key === undefined || conditionsKey === undefined) return;
+
+      const firstIndex = seen.get(`${key}|${conditionsKey}`);
+      if (firstIndex === undefined) {
+        seen.set(`${key}|${conditionsKey}`, index);
+      } else {
+        context.report({
+          node: entry,
+          messageId: "duplicate",
+          data: { index: `${index}`, firstIndex: `${firstIndex}` },
+        });
+      }
+    });
+  },
+);
+
+/** Reports generator functions in `selectorGenerators` and `slots` that never read the variant selector */
+const noIgnoredVariantSelector = createRule(
+  {
+    type: "problem",
+    docs: { description: "Require selector generators to use the variant selector they receive" },
+    schema: [],
+    messages: {
+      ignored:
+        'Generator "{{ name }}" ignores the variant selector, so its rules apply regardless of the variant. Build the selector from its argument.',
+    },
+  },
+  (context, options) => {
+    for (const option of ["selectorGenerators", "slots"]) {
+      for (const generator of getObject(options, option)?.properties ?? []) {
+        if (generator.type !== "Property") continue;
+        const fn = generator.value;
+        if (fn.type !== "ArrowFunctionExpression" && fn.type !== "FunctionExpression") continue;
+
+        const [parameter] = fn.params;
+        const ignored =
+          parameter === undefined ||
+          (parameter.type === "Identifier" &&
+            context.sourceCode
+              .getDeclaredVariables(fn)
+              .some((variable) => variable.name === parameter.name && variable.references.length === 0));
+        if (ignored) {
+          context.report({ node: fn, messageId: "ignored", data: { name: getPropertyName(generator) ?? "?" } });
+        }
+      }
+    }
+  },
+);
+
+/** Reports `undefined` values in compound variant selections, which match every value of the group */
+const noUndefinedVariantValues = createRule(
+  {
+    type: "suggestion",
+    docs: { description: "Disallow `undefined` values in compound variant selections" },
+    fixable: "code",
+    schema: [],
+    messages: {
+      undefinedValue:
+        'Variant "{{ name }}" is undefined, so it is dropped from the selector and the entry matches every value. Remove it.',
+    },
+  },
+  (context, options) => {
+    const compoundVariants = getProperty(options, "compoundVariants")?.value;
+    if (compoundVariants?.type !== "ArrayExpression") return;
+
+    for (const entry of compoundVariants.elements) {
+      const variants = entry?.type === "ObjectExpression" ? getObject(entry, "variants") : undefined;
+      for (const variant of variants?.properties ?? []) {
+        if (variant.type !== "Property" || !isUndefined(variant.value)) continue;
+        context.report({
+          node: variant,
+          messageId: "undefinedValue",
+          data: { name: getPropertyName(variant) ?? "?" },
+          fix: (fixer) => removeProperty(context, fixer, variant),
+        });
+      }
+    }
+  },
+);
+
+const rules = {
+  "no-unused-selector-generators": noUnusedSelectorGenerators,
+  "no-duplicate-compound-variants": noDuplicateCompoundVariants,
+  "no-ignored-variant-selector": noIgnoredVariantSelector,
+  "no-undefined-variant-values": noUndefinedVariantValues,
+};
+
+/**
+ * ESLint plugin catching `globalRecipe` mistakes that type-check. Enable every rule with the
+ * `recommended` flat config:
+ *
+ * @example
+ * import globalRecipes from "global-recipes/eslint-plugin";
+ *
+ * export default [globalRecipes.configs.recommended];
+ */
+const plugin: ESLint.Plugin & { configs: { recommended: Linter.Config } } = {
+  meta: { name: "global-recipes" },
+  rules,
+  configs: {
+    recommended: {
+      name: "global-recipes/recommended",
+      plugins: {},
+      rules: Object.fromEntries(Object.keys(rules).map((name) => [`global-recipes/${name}`, "error"])),
+    },
+  },
+};
+plugin.configs.recommended.plugins = { "global-recipes": plugin };
+
+export default plugin;
@@ -1,20 +1,7 @@
-import { describe, it } from "vitest";
+import { describe, expectTypeOf, it } from "vitest";
 import { globalRecipe } from "./globalRecipe";
-import type { RuntimeFn } from "@vanilla-extract/recipes";
-
-// Mock recipe type helper
-type VariantDefinitions = Record<string, string>;
-type VariantGroups = Record<string, VariantDefinitions>;
-
-const createMockRecipe = <Variants extends VariantGroups>(options: { base: string; variants: Variants }) => {
-  const fn = () => "";
-  fn.variants = () => Object.keys(options.variants);
-  fn.classNames = {
-    base: options.base,
-    variants: options.variants,
-  };
-  return fn as RuntimeFn<Variants>;
-};
+import { fromClassNames, fromRecipe, fromStyleVariants } from "./variantSource";
+import { createMockRecipe } from "./testing";
 
 describe("globalRecipe types", () => {
   describe("variant type safety", () => {
@@ -85,6 +72,90 @@ describe("globalRecipe types", () => {
       });
     });
 
+    it("accepts array variant values", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button",
+        variants: {
+          size: { sm: "size_sm", md: "size_md", lg: "size_lg" },
+          disabled: { true: "disabled_true", false: "disabled_false" },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        compoundVariants: [
+          { variants: { size: ["sm", "md"] }, style: {} },
+          { variants: { size: ["lg"], disabled: [true, false] }, style: {} },
+        ],
+      });
+    });
+
+    it("rejects invalid array variant values", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button",
+        variants: {
+          size: { sm: "size_sm", md: "size_md" },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        compoundVariants: [
+          {
+            variants: {
+              // @ts-expect-error - "xl" is not a valid size value
+              size: ["sm", "xl"],
+            },
+            style: {},
+          },
+        ],
+      });
+    });
+
+    it("accepts negated variant values", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button",
+        variants: {
+          size: { sm: "size_sm", md: "size_md", lg: "size_lg" },
+          iconOnly: { true: "iconOnly_true", false: "iconOnly_false" },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        compoundVariants: [
+          { variants: { size: { not: "lg" } }, style: {} },
+          { variants: { size: { not: ["sm", "md"] }, iconOnly: { not: true } }, style: {} },
+        ],
+      });
+    });
+
+    it("rejects invalid negated variant values", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button",
+        variants: {
+          size: { sm: "size_sm", md: "size_md" },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        compoundVariants: [
+          {
+            variants: {
+              // @ts-expect-error - "xl" is not a valid size value
+              size: { not: "xl" },
+            },
+            style: {},
+          },
+        ],
+      });
+    });
+
     it("accepts boolean variants with boolean values", () => {
       const buttonRecipe = createMockRecipe({
         base: "button",
@@ -93,15 +164,414 @@ describe("globalRecipe types", () => {
         },
       });
 
-      // Boolean values should work for "true"/"false" variant keys
+      // Boolean values should work for "true"/"false" variant keys
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        compoundVariants: [
+          { variants: { disabled: true }, style: {} },
+          { variants: { disabled: false }, style: {} },
+        ],
+      });
+    });
+  });
+
+  describe("variants type safety", () => {
+    it("accepts valid variant names and values", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button",
+        variants: {
+          size: { sm: "size_sm", md: "size_md" },
+          disabled: { true: "disabled_true", false: "disabled_false" },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+          "&:hover": (v) => `${v}:hover svg`,
+        },
+        variants: {
+          size: {
+            sm: { width: "16px", selectors: { "&:hover": { fill: "blue" } } },
+          },
+          disabled: {
+            true: { opacity: 0.5 },
+          },
+        },
+      });
+    });
+
+    it("rejects invalid variant names and values", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button",
+        variants: {
+          size: { sm: "size_sm", md: "size_md" },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        variants: {
+          // @ts-expect-error - "invalid" is not a valid variant name
+          invalid: {},
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        variants: {
+          size: {
+            // @ts-expect-error - "xl" is not a valid size value
+            xl: { width: "24px" },
+          },
+        },
+      });
+    });
+
+    it("rejects invalid selector keys", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button",
+        variants: {
+          size: { sm: "size_sm" },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+          "&:hover": (v) => `${v}:hover svg`,
+        },
+        variants: {
+          size: {
+            sm: {
+              selectors: {
+                // @ts-expect-error - "&:focus" is not defined in selectorGenerators
+                "&:focus": { outline: "none" },
+              },
+            },
+          },
+        },
+      });
+    });
+  });
+
+  describe("exhaustive type safety", () => {
+    const buttonRecipe = createMockRecipe({
+      base: "button",
+      variants: {
+        size: { sm: "size_sm", md: "size_md" },
+        disabled: { true: "disabled_true", false: "disabled_false" },
+      },
+    });
+
+    it("accepts variants covering every value of exhaustive groups", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        exhaustive: ["size", "disabled"],
+        variants: {
+          size: { sm: {}, md: {} },
+          disabled: { true: {}, false: {} },
+        },
+      });
+    });
+
+    it("does not require other groups to be exhaustive", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        exhaustive: ["size"],
+        variants: {
+          size: { sm: {}, md: {} },
+          disabled: { true: {} },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        variants: {
+          size: { sm: {} },
+        },
+      });
+    });
+
+    it("rejects variants missing values of exhaustive groups", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        exhaustive: ["size", "disabled"],
+        variants: {
+          size: { sm: {}, md: {} },
+          // @ts-expect-error - "false" is not covered
+          disabled: { true: {} },
+        },
+      });
+
+      // @ts-expect-error - variants is required with exhaustive groups
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        exhaustive: ["size"],
+      });
+    });
+
+    it("accepts values covered by single-group compound variants or matrix", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        exhaustive: ["size", "disabled"],
+        variants: { size: { sm: {} } },
+        compoundVariants: [
+          { variants: { size: "md" }, style: {} },
+          { variants: { disabled: [true] }, style: {} },
+          { variants: { disabled: { not: true } }, style: {} },
+        ],
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        exhaustive: ["size"],
+        matrix: { groups: ["size"], style: () => ({}) },
+      });
+
+      // Entries of a non-literal array are accepted, but only inline entries are read as coverage
+      const compoundVariants = [
+        { variants: { size: "sm" as const }, style: {} },
+        { variants: { size: "md" as const }, style: {} },
+      ];
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        compoundVariants,
+      });
+    });
+
+    it("does not count compound variants selecting several groups or responsive values", () => {
+      const tabletRecipe = {
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v: string) => `${v} svg` },
+        conditions: { tablet: { "@media": "(min-width: 768px)" } },
+      };
+
+      globalRecipe({
+        ...tabletRecipe,
+        exhaustive: ["size"],
+        variants: {
+          // @ts-expect-error - "md" is only covered together with disabled
+          size: { sm: {} },
+        },
+        compoundVariants: [{ variants: { size: "md", disabled: true }, style: {} }],
+      });
+
+      globalRecipe({
+        ...tabletRecipe,
+        exhaustive: ["size"],
+        variants: {
+          // @ts-expect-error - "md" is only covered on tablets
+          size: { sm: {} },
+        },
+        compoundVariants: [{ variants: { size: { tablet: "md" } }, style: {} }],
+      });
+    });
+
+    it("rejects unknown keys in compound variant selections", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        compoundVariants: [
+          {
+            // @ts-expect-error - "tone" is not a variant name
+            variants: { size: "sm", tone: "danger" },
+            style: {},
+          },
+          {
+            // @ts-expect-error - "but" is not a condition
+            variants: { size: { not: "sm", but: "md" } },
+            style: {},
+          },
+        ],
+      });
+    });
+
+    it("rejects unknown exhaustive groups", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        // @ts-expect-error - "tone" is not a variant name
+        exhaustive: ["tone"],
+        variants: {
+          size: { sm: {}, md: {} },
+          disabled: { true: {}, false: {} },
+        },
+      });
+    });
+  });
+
+  describe("matrix type safety", () => {
+    const buttonRecipe = createMockRecipe({
+      base: "button",
+      variants: {
+        size: { sm: "size_sm", md: "size_md" },
+        disabled: { true: "disabled_true", false: "disabled_false" },
+      },
+    });
+
+    it("types the style function argument from the groups", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        matrix: {
+          groups: ["size", "disabled"],
+          style: ({ size, disabled }) => {
+            const sizeValue: "sm" | "md" = size;
+            const disabledValue: boolean = disabled;
+            return { width: sizeValue, opacity: disabledValue ? 0.5 : 1 };
+          },
+        },
+      });
+    });
+
+    it("rejects unknown groups and values", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        matrix: {
+          // @ts-expect-error - "tone" is not a variant name
+          groups: ["tone"],
+          style: () => ({}),
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        matrix: {
+          groups: ["size"],
+          style: ({ size }) => ({
+            // @ts-expect-error - "lg" is not a size value
+            width: size === "lg" ? "24px" : "16px",
+          }),
+        },
+      });
+    });
+  });
+
+  describe("multiple recipes type safety", () => {
+    const buttonRecipe = createMockRecipe({
+      base: "button",
+      variants: {
+        size: { sm: "size_sm", md: "size_md" },
+        tone: { neutral: "tone_neutral" },
+      },
+    });
+    const iconButtonRecipe = createMockRecipe({
+      base: "iconButton",
+      variants: {
+        size: { sm: "size_sm", md: "size_md", lg: "size_lg" },
+        tone: { neutral: "tone_neutral", danger: "tone_danger" },
+        round: { true: "round_true" },
+      },
+    });
+
+    it("accepts variants shared by every recipe", () => {
+      globalRecipe({
+        recipe: [buttonRecipe, iconButtonRecipe],
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        variants: { size: { sm: {}, md: {} } },
+        compoundVariants: [{ variants: { size: "sm", tone: "neutral" }, style: {} }],
+      });
+    });
+
+    it("rejects variants missing from one of the recipes", () => {
+      globalRecipe({
+        recipe: [buttonRecipe, iconButtonRecipe],
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        compoundVariants: [
+          {
+            variants: {
+              // @ts-expect-error - "lg" is not a size value of every recipe
+              size: "lg",
+            },
+            style: {},
+          },
+        ],
+      });
+
+      globalRecipe({
+        recipe: [buttonRecipe, iconButtonRecipe],
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        compoundVariants: [
+          {
+            variants: {
+              // @ts-expect-error - "round" is not a variant of every recipe
+              round: true,
+            },
+            style: {},
+          },
+        ],
+      });
+    });
+  });
+
+  describe("variant source type safety", () => {
+    const buttonSize = { sm: "buttonSize_sm", md: "buttonSize_md" };
+    const buttonRound = { true: "buttonRound_true", false: "buttonRound_false" };
+
+    it("carries variant types through every adapter", () => {
       globalRecipe({
-        recipe: buttonRecipe,
+        recipe: fromStyleVariants("button", { size: buttonSize, round: buttonRound }),
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        variants: { size: { sm: {} } },
+        compoundVariants: [{ variants: { size: ["sm", "md"], round: true }, style: {} }],
+      });
+
+      globalRecipe({
+        recipe: fromClassNames({ base: "button", variants: { size: buttonSize } }),
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        exhaustive: ["size"],
+        variants: { size: { sm: {}, md: {} } },
+      });
+
+      globalRecipe({
+        recipe: [
+          fromRecipe(createMockRecipe({ base: "button", variants: { size: buttonSize } })),
+          fromStyleVariants("iconButton", { size: buttonSize }),
+        ],
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        compoundVariants: [{ variants: { size: "md" }, style: {} }],
+      });
+    });
+
+    it("rejects values missing from the source", () => {
+      globalRecipe({
+        recipe: fromStyleVariants("button", { size: buttonSize }),
         selectorGenerators: { "&": (v) => `${v} svg` },
         compoundVariants: [
-          { variants: { disabled: true }, style: {} },
-          { variants: { disabled: false }, style: {} },
+          {
+            variants: {
+              // @ts-expect-error - "lg" is not a size value
+              size: "lg",
+            },
+            style: {},
+          },
         ],
       });
+
+      globalRecipe({
+        recipe: fromClassNames({ base: "button", variants: { size: buttonSize } }),
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        variants: {
+          // @ts-expect-error - "tone" is not a variant group
+          tone: {},
+        },
+      });
     });
   });
 
@@ -211,6 +681,308 @@ describe("globalRecipe types", () => {
     });
   });
 
+  describe("slots and states type safety", () => {
+    it("accepts valid slot and state keys", () => {
+      const selectRecipe = createMockRecipe({
+        base: "select",
+        variants: {
+          size: { sm: "size_sm" },
+        },
+      });
+
+      globalRecipe({
+        recipe: selectRecipe,
+        selectorGenerators: { "&": (v) => v },
+        slots: {
+          icon: (v) => `${v} svg`,
+          label: (v) => `${v} span`,
+        },
+        states: {
+          hover: ":hover",
+          disabled: ":disabled",
+        },
+        base: {
+          slots: {
+            icon: { fill: "gray", selectors: { "&:hover": { fill: "black" } } },
+          },
+        },
+        variants: {
+          size: {
+            sm: { slots: { label: { fontSize: "12px" } } },
+          },
+        },
+        compoundVariants: [
+          {
+            variants: { size: "sm" },
+            style: { slots: { label: { selectors: { "&:disabled": { opacity: 0.5 } } } } },
+          },
+        ],
+      });
+    });
+
+    it("rejects invalid slot keys", () => {
+      const selectRecipe = createMockRecipe({
+        base: "select",
+        variants: {},
+      });
+
+      globalRecipe({
+        recipe: selectRecipe,
+        selectorGenerators: { "&": (v) => v },
+        slots: {
+          icon: (v) => `${v} svg`,
+        },
+        base: {
+          slots: {
+            // @ts-expect-error - "label" is not defined in slots
+            label: { fontSize: "12px" },
+          },
+        },
+      });
+    });
+
+    it("rejects invalid state keys", () => {
+      const selectRecipe = createMockRecipe({
+        base: "select",
+        variants: {},
+      });
+
+      globalRecipe({
+        recipe: selectRecipe,
+        selectorGenerators: { "&": (v) => v },
+        slots: {
+          icon: (v) => `${v} svg`,
+        },
+        states: {
+          hover: ":hover",
+        },
+        base: {
+          slots: {
+            icon: {
+              selectors: {
+                // @ts-expect-error - "&:focus" is not defined in states
+                "&:focus": { outline: "none" },
+              },
+            },
+          },
+        },
+      });
+    });
+  });
+
+  describe("scopes type safety", () => {
+    const buttonRecipe = createMockRecipe({
+      base: "button",
+      variants: {
+        size: { sm: "size_sm" },
+      },
+    });
+
+    it("accepts valid scope keys", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+          "&:hover": (v) => `${v}:hover svg`,
+        },
+        scopes: { dark: ".theme_dark", rtl: "[dir=rtl]" },
+        base: {
+          scopes: {
+            dark: { fill: "white", selectors: { "&:hover": { fill: "gray" } } },
+          },
+        },
+        compoundVariants: [{ variants: { size: "sm" }, style: { scopes: { rtl: { transform: "scaleX(-1)" } } } }],
+      });
+    });
+
+    it("rejects invalid scope and selector keys", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        scopes: { dark: ".theme_dark" },
+        base: {
+          scopes: {
+            // @ts-expect-error - "light" is not defined in scopes
+            light: { fill: "black" },
+          },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+          "&:hover": (v) => `${v}:hover svg`,
+        },
+        scopes: { dark: ".theme_dark" },
+        base: {
+          scopes: {
+            dark: {
+              selectors: {
+                // @ts-expect-error - "&:focus" is not defined in selectorGenerators
+                "&:focus": { outline: "none" },
+              },
+            },
+          },
+        },
+      });
+    });
+  });
+
+  describe("conditions type safety", () => {
+    const buttonRecipe = createMockRecipe({
+      base: "button",
+      variants: {
+        size: { sm: "size_sm" },
+      },
+    });
+
+    it("accepts valid condition keys", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        conditions: { expanded: "[aria-expanded=true]", open: "[data-state=open]" },
+        compoundVariants: [{ variants: { size: "sm" }, conditions: { expanded: true, open: false }, style: {} }],
+      });
+    });
+
+    it("rejects invalid condition keys and values", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        conditions: { expanded: "[aria-expanded=true]" },
+        compoundVariants: [
+          {
+            variants: { size: "sm" },
+            // @ts-expect-error - "open" is not defined in conditions
+            conditions: { open: true },
+            style: {},
+          },
+        ],
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        conditions: { expanded: "[aria-expanded=true]" },
+        compoundVariants: [
+          {
+            variants: { size: "sm" },
+            // @ts-expect-error - conditions are required or excluded with booleans
+            conditions: { expanded: "yes" },
+            style: {},
+          },
+        ],
+      });
+    });
+
+    it("accepts variant values keyed by responsive conditions", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        conditions: { mobile: {}, tablet: { "@media": "(min-width: 768px)" }, expanded: "[aria-expanded=true]" },
+        compoundVariants: [
+          { variants: { size: { mobile: "sm", tablet: ["sm"] } }, conditions: { expanded: true }, style: {} },
+          { variants: { size: { tablet: { not: "sm" } } }, style: {} },
+        ],
+      });
+    });
+
+    it("rejects invalid responsive condition keys and values", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        conditions: { tablet: { "@media": "(min-width: 768px)" }, expanded: "[aria-expanded=true]" },
+        compoundVariants: [
+          {
+            variants: {
+              size: {
+                tablet: "sm",
+                // @ts-expect-error - "expanded" is a selector condition
+                expanded: "sm",
+              },
+            },
+            style: {},
+          },
+        ],
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        conditions: { tablet: { "@media": "(min-width: 768px)" } },
+        compoundVariants: [
+          {
+            // @ts-expect-error - "lg" is not a value of size
+            variants: { size: { tablet: "lg" } },
+            style: {},
+          },
+        ],
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        conditions: { tablet: { "@media": "(min-width: 768px)" } },
+        compoundVariants: [
+          {
+            variants: { size: "sm" },
+            // @ts-expect-error - responsive conditions are not required through conditions
+            conditions: { tablet: true },
+            style: {},
+          },
+        ],
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+        compoundVariants: [
+          {
+            // @ts-expect-error - no responsive conditions are defined
+            variants: { size: { tablet: "sm" } },
+            style: {},
+          },
+        ],
+      });
+    });
+  });
+
+  describe("handle type safety", () => {
+    const buttonRecipe = createMockRecipe({
+      base: "button",
+      variants: {
+        size: { sm: "size_sm", md: "size_md" },
+      },
+    });
+
+    it("types the resolved selectors by generator key", () => {
+      const handle = globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+          "&:hover": (v) => `${v}:hover svg`,
+        },
+      });
+
+      expectTypeOf(handle.base).toEqualTypeOf<Record<"&" | "&:hover", string>>();
+      expectTypeOf(handle.selectorFor({ size: "sm" }, "&:hover")).toBeString();
+    });
+
+    it("rejects unknown selector keys and variant values in selectorFor", () => {
+      const handle = globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": (v) => `${v} svg` },
+      });
+
+      // @ts-expect-error - "&:hover" is not defined in selectorGenerators
+      handle.selectorFor({ size: "sm" }, "&:hover");
+
+      // @ts-expect-error - "lg" is not a size value
+      handle.selectorFor({ size: "lg" });
+    });
+  });
+
   describe("selectorGenerators type safety", () => {
     it("requires & selector generator", () => {
       const buttonRecipe = createMockRecipe({
@@ -226,5 +998,44 @@ describe("globalRecipe types", () => {
         },
       });
     });
+
+    it("accepts string templates containing &", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button",
+        variants: {},
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": "& svg",
+          "&:hover": "&:hover svg",
+        },
+        slots: { label: "& span" },
+        base: { selectors: { "&:hover": { fill: "black" } }, slots: { label: { color: "black" } } },
+      });
+    });
+
+    it("rejects string templates without &", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button",
+        variants: {},
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          // @ts-expect-error - templates must contain "&"
+          "&": "svg",
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": "& svg" },
+        // @ts-expect-error - templates must contain "&"
+        slots: { label: "span" },
+      });
+    });
   });
 });
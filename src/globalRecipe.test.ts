@@ -1,6 +1,6 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
-import { globalRecipe } from "./globalRecipe";
-import type { RuntimeFn } from "@vanilla-extract/recipes";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { globalRecipe, planGlobalRecipe, configureGlobalRecipe, renderGlobalRecipeCss } from "./globalRecipe";
+import { clearRegisteredGlobalRecipes, createMockRecipe } from "./testing";
 
 // Mock globalStyle function to capture and test the passed arguments
 vi.mock("@vanilla-extract/css", () => ({
@@ -11,19 +11,9 @@ import { globalStyle } from "@vanilla-extract/css";
 
 const mockGlobalStyle = vi.mocked(globalStyle);
 
-// Instead of style rule, class names will be defined
-type VariantDefinitions = Record<string, string>;
-type VariantGroups = Record<string, VariantDefinitions>;
-
-const createMockRecipe = <Variants extends VariantGroups>(options: { base: string; variants: Variants }) => {
-  const fn = () => "";
-  fn.variants = () => Object.keys(options.variants);
-  fn.classNames = {
-    base: options.base,
-    variants: options.variants,
-  };
-  return fn as RuntimeFn<Variants>;
-};
+beforeEach(() => {
+  clearRegisteredGlobalRecipes();
+});
 
 describe("globalRecipe", () => {
   beforeEach(() => {
@@ -100,6 +90,98 @@ describe("globalRecipe", () => {
     });
   });
 
+  describe("variants", () => {
+    it("applies styles for each variant value", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {
+          size: { sm: "button_size_sm", md: "button_size_md" },
+          tone: { neutral: "button_tone_neutral", danger: "button_tone_danger" },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        variants: {
+          size: {
+            sm: { width: "16px" },
+            md: { width: "20px" },
+          },
+          tone: {
+            danger: { fill: "red" },
+          },
+        },
+      });
+
+      expect(mockGlobalStyle).toHaveBeenCalledTimes(3);
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_size_sm svg", { width: "16px" });
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_size_md svg", { width: "20px" });
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_tone_danger svg", { fill: "red" });
+    });
+
+    it("handles boolean variants and selectors", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {
+          iconOnly: { true: "button_iconOnly_true", false: "button_iconOnly_false" },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+          "&:hover": (v) => `${v}:hover svg`,
+        },
+        variants: {
+          iconOnly: {
+            true: {
+              margin: 0,
+              selectors: {
+                "&:hover": { fill: "blue" },
+              },
+            },
+          },
+        },
+      });
+
+      expect(mockGlobalStyle).toHaveBeenCalledTimes(2);
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_iconOnly_true svg", { margin: 0 });
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_iconOnly_true:hover svg", { fill: "blue" });
+    });
+
+    it("applies variants after base and before compound variants", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {
+          size: { sm: "button_size_sm" },
+          tone: { danger: "button_tone_danger" },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        base: { flexShrink: 0 },
+        variants: {
+          size: { sm: { width: "16px" } },
+        },
+        compoundVariants: [{ variants: { size: "sm", tone: "danger" }, style: { fill: "red" } }],
+      });
+
+      expect(mockGlobalStyle.mock.calls.map(([selector]) => selector)).toEqual([
+        ".button_base svg",
+        ".button_size_sm svg",
+        ".button_size_sm.button_tone_danger svg",
+      ]);
+    });
+  });
+
   describe("compound variants", () => {
     it("applies styles for single variant", () => {
       const buttonRecipe = createMockRecipe({
@@ -216,6 +298,75 @@ describe("globalRecipe", () => {
       expect(mockGlobalStyle).toHaveBeenCalledWith(".button_disabled_false svg", { opacity: 1 });
     });
 
+    it("matches any of the listed values for array variants", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {
+          size: { sm: "button_size_sm", md: "button_size_md", lg: "button_size_lg" },
+          disabled: { true: "button_disabled_true", false: "button_disabled_false" },
+          variant: { primary: "button_variant_primary", secondary: "button_variant_secondary" },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        compoundVariants: [
+          { variants: { size: ["sm", "md"] }, style: { width: "16px" } },
+          { variants: { disabled: [true, false] }, style: { cursor: "pointer" } },
+          {
+            variants: { size: ["sm", "lg"], variant: ["primary", "secondary"] },
+            style: { fill: "white" },
+          },
+          { variants: { size: ["lg"] }, style: { width: "24px" } },
+        ],
+      });
+
+      expect(mockGlobalStyle).toHaveBeenCalledTimes(4);
+      expect(mockGlobalStyle).toHaveBeenCalledWith(":is(.button_size_sm, .button_size_md) svg", { width: "16px" });
+      expect(mockGlobalStyle).toHaveBeenCalledWith(":is(.button_disabled_true, .button_disabled_false) svg", {
+        cursor: "pointer",
+      });
+      expect(mockGlobalStyle).toHaveBeenCalledWith(
+        ":is(.button_size_sm, .button_size_lg):is(.button_variant_primary, .button_variant_secondary) svg",
+        { fill: "white" },
+      );
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_size_lg svg", { width: "24px" });
+    });
+
+    it("excludes negated values with :not() scoped to the base class", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {
+          size: { sm: "button_size_sm", md: "button_size_md", lg: "button_size_lg" },
+          iconOnly: { true: "button_iconOnly_true", false: "button_iconOnly_false" },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        compoundVariants: [
+          { variants: { size: { not: "lg" } }, style: { width: "16px" } },
+          { variants: { size: "sm", iconOnly: { not: true } }, style: { marginRight: "4px" } },
+          { variants: { size: { not: ["sm", "md"] } }, style: { width: "24px" } },
+        ],
+      });
+
+      expect(mockGlobalStyle).toHaveBeenCalledTimes(3);
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_base:not(.button_size_lg) svg", { width: "16px" });
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_base.button_size_sm:not(.button_iconOnly_true) svg", {
+        marginRight: "4px",
+      });
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_base:not(.button_size_sm, .button_size_md) svg", {
+        width: "24px",
+      });
+    });
+
     it("skips variants with undefined values", () => {
       const buttonRecipe = createMockRecipe({
         base: "button_base",
@@ -263,42 +414,147 @@ describe("globalRecipe", () => {
     });
   });
 
-  describe("base and compound variants together", () => {
-    it("applies both base and compound variant styles", () => {
+  describe("selector templates", () => {
+    const buttonRecipe = createMockRecipe({
+      base: "button_base",
+      variants: {
+        size: { sm: "button_size_sm" },
+      },
+    });
+
+    it("accepts string templates next to generator functions", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": "& input + div",
+          "&:checked": "& input:checked + div",
+          "&:focus": (v) => `${v}:focus input + div`,
+        },
+        slots: {
+          icon: "& svg",
+        },
+        states: {
+          hover: ":hover",
+        },
+        variants: {
+          size: {
+            sm: {
+              width: "16px",
+              selectors: { "&:checked": { background: "blue" }, "&:focus": { outline: "none" } },
+              slots: { icon: { selectors: { "&:hover": { fill: "black" } } } },
+            },
+          },
+        },
+      });
+
+      expect(mockGlobalStyle.mock.calls).toEqual([
+        [".button_size_sm input + div", { width: "16px" }],
+        [".button_size_sm input:checked + div", { background: "blue" }],
+        [".button_size_sm:focus input + div", { outline: "none" }],
+        [".button_size_sm:hover svg", { fill: "black" }],
+      ]);
+    });
+
+    it("throws on templates without &", () => {
+      expect(() =>
+        globalRecipe({
+          recipe: buttonRecipe,
+          selectorGenerators: {
+            "&": "svg" as never,
+          },
+        }),
+      ).toThrowError(
+        'globalRecipe: selectorGenerators["&"] of recipe "button_base" must contain "&" outside of strings. Got "svg"',
+      );
+    });
+
+    it("throws when a template expands to an invalid selector", () => {
+      expect(() =>
+        globalRecipe({
+          recipe: buttonRecipe,
+          selectorGenerators: {
+            "&": "& svg",
+          },
+          slots: {
+            label: "& [data-slot=label",
+          },
+          base: {
+            slots: { label: { color: "black" } },
+          },
+        }),
+      ).toThrowError(
+        'globalRecipe: slots["label"] of recipe "button_base" expands to an invalid selector ' +
+          '".button_base [data-slot=label"',
+      );
+    });
+  });
+
+  describe("matrix", () => {
+    it("expands styles over every combination of the recipe's variant values", () => {
       const buttonRecipe = createMockRecipe({
         base: "button_base",
         variants: {
           size: { sm: "button_size_sm", md: "button_size_md" },
+          density: { compact: "button_density_compact", comfortable: "button_density_comfortable" },
         },
       });
+      const iconSize = { sm: 16, md: 20 };
 
       globalRecipe({
         recipe: buttonRecipe,
         selectorGenerators: {
           "&": (v) => `${v} svg`,
         },
-        base: {
-          pointerEvents: "none",
+        matrix: {
+          groups: ["size", "density"],
+          style: ({ size, density }) => ({
+            width: `${iconSize[size] - (density === "compact" ? 4 : 0)}px`,
+          }),
         },
-        compoundVariants: [{ variants: { size: "sm" }, style: { width: "16px" } }],
       });
 
-      expect(mockGlobalStyle).toHaveBeenCalledTimes(2);
-      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_size_sm svg", {
-        width: "16px",
+      expect(mockGlobalStyle.mock.calls).toEqual([
+        [".button_size_sm.button_density_compact svg", { width: "12px" }],
+        [".button_size_sm.button_density_comfortable svg", { width: "16px" }],
+        [".button_size_md.button_density_compact svg", { width: "16px" }],
+        [".button_size_md.button_density_comfortable svg", { width: "20px" }],
+      ]);
+    });
+
+    it("passes booleans for boolean variants and skips undefined styles", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {
+          disabled: { true: "button_disabled_true", false: "button_disabled_false" },
+        },
       });
-      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_base svg", {
-        pointerEvents: "none",
+
+      const rules = planGlobalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        matrix: {
+          groups: ["disabled"],
+          style: ({ disabled }) => (disabled ? { opacity: 0.5 } : undefined),
+        },
       });
+
+      expect(rules).toEqual([
+        {
+          selector: ".button_disabled_true svg",
+          style: { opacity: 0.5 },
+          source: { type: "matrix", variants: { disabled: true }, selectorKey: "&" },
+        },
+      ]);
     });
-  });
 
-  describe("advanced globalStyle properties", () => {
-    it("passes through at-rules (@layer, @media, @supports, etc.)", () => {
+    it("applies after variants and before compound variants", () => {
       const buttonRecipe = createMockRecipe({
         base: "button_base",
         variants: {
           size: { sm: "button_size_sm" },
+          tone: { danger: "button_tone_danger" },
         },
       });
 
@@ -306,87 +562,1004 @@ describe("globalRecipe", () => {
         recipe: buttonRecipe,
         selectorGenerators: {
           "&": (v) => `${v} svg`,
-          "&:hover": (v) => `${v}:hover svg`,
         },
-        base: {
-          width: "20px",
-          "@layer": {
-            utilities: {
-              fill: "currentColor",
-            },
-          },
-          "@media": {
-            "(prefers-reduced-motion: reduce)": {
-              transition: "none",
-            },
-          },
-          "@supports": {
-            "(aspect-ratio: 1)": {
-              aspectRatio: "1",
-            },
-          },
-          selectors: {
-            "&:hover": {
-              fill: "blue",
-              "@media": {
-                "(prefers-reduced-motion: no-preference)": {
-                  transition: "fill 0.2s",
-                },
-              },
-            },
-          },
+        variants: { tone: { danger: { fill: "red" } } },
+        matrix: { groups: ["size"], style: () => ({ width: "16px" }) },
+        compoundVariants: [{ variants: { size: "sm", tone: "danger" }, style: { fill: "white" } }],
+      });
+
+      expect(mockGlobalStyle.mock.calls.map(([selector]) => selector)).toEqual([
+        ".button_tone_danger svg",
+        ".button_size_sm svg",
+        ".button_size_sm.button_tone_danger svg",
+      ]);
+    });
+  });
+
+  describe("exhaustive", () => {
+    it("applies styles when every value is covered", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {
+          size: { sm: "button_size_sm", md: "button_size_md" },
+          disabled: { true: "button_disabled_true", false: "button_disabled_false" },
         },
-        compoundVariants: [
-          {
-            variants: { size: "sm" },
-            style: {
-              width: "16px",
-              "@media": {
-                "(min-width: 768px)": {
-                  width: "20px",
-                },
-              },
-              selectors: {
-                "&:hover": {
-                  transform: "scale(1.1)",
-                },
-              },
-            },
-          },
-        ],
       });
 
-      expect(mockGlobalStyle).toHaveBeenCalledTimes(4);
-      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_base svg", {
-        width: "20px",
-        "@layer": {
-          utilities: {
-            fill: "currentColor",
-          },
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
         },
-        "@media": {
-          "(prefers-reduced-motion: reduce)": {
-            transition: "none",
-          },
+        exhaustive: ["size", "disabled"],
+        variants: {
+          size: { sm: { width: "16px" }, md: { width: "20px" } },
+          disabled: { true: { opacity: 0.5 }, false: { opacity: 1 } },
         },
-        "@supports": {
-          "(aspect-ratio: 1)": {
-            aspectRatio: "1",
-          },
+      });
+
+      expect(mockGlobalStyle).toHaveBeenCalledTimes(4);
+    });
+
+    it("throws with the missing values", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {
+          size: { sm: "button_size_sm", md: "button_size_md", xl: "button_size_xl" },
         },
       });
-      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_base:hover svg", {
-        fill: "blue",
-        "@media": {
-          "(prefers-reduced-motion: no-preference)": {
-            transition: "fill 0.2s",
+
+      expect(() =>
+        globalRecipe({
+          recipe: buttonRecipe,
+          selectorGenerators: {
+            "&": (v) => `${v} svg`,
           },
+          exhaustive: ["size"],
+          // Simulates a variant type widened through a shared helper
+          variants: { size: { sm: { width: "16px" } } } as never,
+        }),
+      ).toThrowError(
+        'globalRecipe: variant "size" of recipe "button_base" is not exhaustive. Missing values: "md", "xl". Style them in variants, compoundVariants or matrix.',
+      );
+    });
+
+    it("counts values covered by single-group compound variants and matrix", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {
+          size: { sm: "button_size_sm", md: "button_size_md", lg: "button_size_lg" },
+          tone: { neutral: "button_tone_neutral", danger: "button_tone_danger" },
+          disabled: { true: "button_disabled_true", false: "button_disabled_false" },
         },
       });
-      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_size_sm svg", {
-        width: "16px",
-        "@media": {
-          "(min-width: 768px)": {
+
+      expect(() =>
+        globalRecipe({
+          recipe: buttonRecipe,
+          selectorGenerators: { "&": (v) => `${v} svg` },
+          exhaustive: ["size", "tone", "disabled"],
+          variants: { size: { sm: { width: "16px" } } },
+          matrix: { groups: ["tone"], style: ({ tone }) => ({ fill: tone === "danger" ? "red" : "black" }) },
+          compoundVariants: [
+            { variants: { size: "md" }, style: { width: "20px" } },
+            { variants: { size: ["lg"], tone: undefined }, style: { width: "24px" } },
+            { variants: { disabled: { not: false } }, style: { opacity: 0.5 } },
+            { variants: { disabled: [false] }, style: { opacity: 1 } },
+          ],
+        }),
+      ).not.toThrow();
+    });
+
+    it("does not count compound variants styling values only some of the time", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {
+          size: { sm: "button_size_sm", md: "button_size_md" },
+          disabled: { true: "button_disabled_true", false: "button_disabled_false" },
+        },
+      });
+
+      expect(() =>
+        globalRecipe({
+          recipe: buttonRecipe,
+          selectorGenerators: { "&": (v) => `${v} svg` },
+          conditions: { expanded: "[aria-expanded=true]", tablet: { "@media": "(min-width: 768px)" } },
+          exhaustive: ["size"],
+          variants: { size: { sm: { width: "16px" } } } as never,
+          compoundVariants: [
+            { variants: { size: "md", disabled: true }, style: { width: "20px" } },
+            { variants: { size: "md" }, conditions: { expanded: true }, style: { width: "20px" } },
+            { variants: { size: { tablet: "md" } }, style: { width: "20px" } },
+          ],
+        }),
+      ).toThrowError('globalRecipe: variant "size" of recipe "button_base" is not exhaustive. Missing values: "md".');
+    });
+
+    it("throws on unknown variant groups", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {
+          size: { sm: "button_size_sm" },
+        },
+      });
+
+      expect(() =>
+        globalRecipe({
+          recipe: buttonRecipe,
+          selectorGenerators: {
+            "&": (v) => `${v} svg`,
+          },
+          exhaustive: ["tone"] as never,
+          variants: {},
+        }),
+      ).toThrowError(
+        'globalRecipe: exhaustive of recipe "button_base" references unknown variant "tone". Available variants: "size"',
+      );
+    });
+  });
+
+  describe("multiple recipes", () => {
+    const createButtonRecipes = () => [
+      createMockRecipe({
+        base: "button_base",
+        variants: {
+          size: { sm: "button_size_sm", md: "button_size_md" },
+        },
+      }),
+      createMockRecipe({
+        base: "iconButton_base",
+        variants: {
+          size: { sm: "iconButton_size_sm", md: "iconButton_size_md", lg: "iconButton_size_lg" },
+          round: { true: "iconButton_round_true" },
+        },
+      }),
+    ];
+
+    it("applies the same definition to each recipe", () => {
+      globalRecipe({
+        recipe: createButtonRecipes(),
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        base: { flexShrink: 0 },
+        variants: {
+          size: { md: { width: "20px" } },
+        },
+        compoundVariants: [{ variants: { size: ["sm", "md"] }, style: { fill: "currentColor" } }],
+      });
+
+      expect(mockGlobalStyle.mock.calls).toEqual([
+        [".button_base svg", { flexShrink: 0 }],
+        [".button_size_md svg", { width: "20px" }],
+        [":is(.button_size_sm, .button_size_md) svg", { fill: "currentColor" }],
+        [".iconButton_base svg", { flexShrink: 0 }],
+        [".iconButton_size_md svg", { width: "20px" }],
+        [":is(.iconButton_size_sm, .iconButton_size_md) svg", { fill: "currentColor" }],
+      ]);
+    });
+
+    it("throws when a variant is missing from one of the recipes", () => {
+      expect(() =>
+        globalRecipe({
+          recipe: createButtonRecipes(),
+          selectorGenerators: {
+            "&": (v) => `${v} svg`,
+          },
+          compoundVariants: [{ variants: { size: "lg" } as never, style: { width: "24px" } }],
+        }),
+      ).toThrowError(
+        'globalRecipe: compoundVariants[0] of recipe "button_base" references unknown value "lg" for variant "size". ' +
+          'Available values: "sm", "md"',
+      );
+    });
+  });
+
+  describe("slots and states", () => {
+    it("composes slots with states", () => {
+      const selectRecipe = createMockRecipe({
+        base: "select_base",
+        variants: {
+          size: { sm: "select_size_sm", md: "select_size_md" },
+        },
+      });
+
+      globalRecipe({
+        recipe: selectRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} [data-slot=trigger]`,
+        },
+        slots: {
+          icon: (v) => `${v} svg`,
+          label: (v) => `${v} [data-slot=label]`,
+        },
+        states: {
+          hover: ":hover",
+          disabled: "[data-disabled]",
+        },
+        base: {
+          cursor: "pointer",
+          slots: {
+            icon: {
+              fill: "gray",
+              selectors: {
+                "&:hover": { fill: "black" },
+                "&:disabled": { opacity: 0.5 },
+              },
+            },
+          },
+        },
+        compoundVariants: [
+          {
+            variants: { size: "sm" },
+            style: {
+              slots: {
+                label: { fontSize: "12px", selectors: { "&:hover": { textDecoration: "underline" } } },
+              },
+            },
+          },
+        ],
+      });
+
+      expect(mockGlobalStyle.mock.calls).toEqual([
+        [".select_base [data-slot=trigger]", { cursor: "pointer" }],
+        [".select_base svg", { fill: "gray" }],
+        [".select_base:hover svg", { fill: "black" }],
+        [".select_base[data-disabled] svg", { opacity: 0.5 }],
+        [".select_size_sm [data-slot=label]", { fontSize: "12px" }],
+        [".select_size_sm:hover [data-slot=label]", { textDecoration: "underline" }],
+      ]);
+    });
+
+    it("includes the slot in rule sources", () => {
+      const selectRecipe = createMockRecipe({
+        base: "select_base",
+        variants: {},
+      });
+
+      const rules = planGlobalRecipe({
+        recipe: selectRecipe,
+        selectorGenerators: {
+          "&": (v) => v,
+        },
+        slots: {
+          icon: (v) => `${v} svg`,
+        },
+        states: {
+          hover: ":hover",
+        },
+        base: {
+          slots: {
+            icon: { fill: "gray", selectors: { "&:hover": { fill: "black" } } },
+          },
+        },
+      });
+
+      expect(rules.map(({ source }) => source)).toEqual([
+        { type: "base", selectorKey: "&", slot: "icon" },
+        { type: "base", selectorKey: "&:hover", slot: "icon" },
+      ]);
+    });
+  });
+
+  describe("scopes", () => {
+    it("prepends scope selectors to generated selectors", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {
+          tone: { danger: "button_tone_danger" },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+          "&:hover": (v) => `${v}:hover svg`,
+        },
+        slots: {
+          label: (v) => `${v} span`,
+        },
+        scopes: {
+          dark: ".theme_dark",
+          rtl: "[dir=rtl]",
+        },
+        base: {
+          fill: "black",
+          scopes: {
+            dark: {
+              fill: "white",
+              selectors: { "&:hover": { fill: "gray" } },
+              slots: { label: { color: "white" } },
+            },
+            rtl: { transform: "scaleX(-1)" },
+          },
+        },
+        compoundVariants: [
+          {
+            variants: { tone: "danger" },
+            style: { fill: "red", scopes: { dark: { fill: "pink" } } },
+          },
+        ],
+      });
+
+      expect(mockGlobalStyle.mock.calls).toEqual([
+        [".button_base svg", { fill: "black" }],
+        [".theme_dark .button_base svg", { fill: "white" }],
+        [".theme_dark .button_base:hover svg", { fill: "gray" }],
+        [".theme_dark .button_base span", { color: "white" }],
+        ["[dir=rtl] .button_base svg", { transform: "scaleX(-1)" }],
+        [".button_tone_danger svg", { fill: "red" }],
+        [".theme_dark .button_tone_danger svg", { fill: "pink" }],
+      ]);
+    });
+
+    it("prepends scope selectors to every selector of a selector list", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {},
+      });
+
+      const rules = planGlobalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg, ${v} :is(img, [role="img"])`,
+        },
+        scopes: {
+          dark: ".theme_dark",
+          print: "body.print",
+        },
+        base: {
+          scopes: { dark: { fill: "white" }, print: { display: "none" } },
+        },
+      });
+
+      expect(rules.map(({ selector }) => selector)).toEqual([
+        '.theme_dark .button_base svg, .theme_dark .button_base :is(img, [role="img"])',
+        'body.print .button_base svg, body.print .button_base :is(img, [role="img"])',
+      ]);
+    });
+
+    it("wraps scope selector lists in :is()", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {},
+      });
+
+      const rules = planGlobalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        scopes: {
+          prose: "article, my-prose",
+        },
+        base: {
+          scopes: { prose: { verticalAlign: "middle" } },
+        },
+      });
+
+      expect(rules.map(({ selector }) => selector)).toEqual([":is(article, my-prose) .button_base svg"]);
+    });
+
+    it("throws on scopes that match no element", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {},
+      });
+      const plan = (scope: string) =>
+        planGlobalRecipe({
+          recipe: buttonRecipe,
+          selectorGenerators: { "&": (v) => `${v} svg` },
+          scopes: { dark: scope },
+          base: { scopes: { dark: { fill: "white" } } },
+        });
+
+      expect(() => plan("theme_dark")).toThrowError(
+        'globalRecipe: scopes["dark"] of recipe "button_base" selects <theme_dark> elements, which do not exist. Class names need their leading ".", e.g. ".theme_dark". Got "theme_dark"',
+      );
+      expect(() => plan("[data-theme=dark] theme_dark")).toThrowError("selects <theme_dark> elements");
+      expect(() => plan(".theme_dark >")).toThrowError(
+        'globalRecipe: scopes["dark"] of recipe "button_base" is an invalid selector ".theme_dark >"',
+      );
+    });
+
+    it("includes the scope in rule sources", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {},
+      });
+
+      const rules = planGlobalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        scopes: {
+          prose: ".prose",
+        },
+        base: {
+          scopes: { prose: { verticalAlign: "middle" } },
+        },
+      });
+
+      expect(rules).toEqual([
+        {
+          selector: ".prose .button_base svg",
+          style: { verticalAlign: "middle" },
+          source: { type: "base", selectorKey: "&", scope: "prose" },
+        },
+      ]);
+    });
+  });
+
+  describe("conditions", () => {
+    const buttonRecipe = createMockRecipe({
+      base: "button_base",
+      variants: {
+        size: { sm: "button_size_sm", md: "button_size_md" },
+      },
+    });
+
+    it("appends required conditions to the variant selector", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+          "&:hover": (v) => `${v}:hover svg`,
+        },
+        conditions: {
+          expanded: "[aria-expanded=true]",
+          open: "[data-state=open]",
+        },
+        compoundVariants: [
+          {
+            variants: { size: "sm" },
+            conditions: { expanded: true },
+            style: { transform: "rotate(180deg)", selectors: { "&:hover": { fill: "blue" } } },
+          },
+          {
+            variants: { size: ["sm", "md"] },
+            conditions: { expanded: true, open: true },
+            style: { fill: "red" },
+          },
+        ],
+      });
+
+      expect(mockGlobalStyle.mock.calls).toEqual([
+        [".button_size_sm[aria-expanded=true] svg", { transform: "rotate(180deg)" }],
+        [".button_size_sm[aria-expanded=true]:hover svg", { fill: "blue" }],
+        [":is(.button_size_sm, .button_size_md)[aria-expanded=true][data-state=open] svg", { fill: "red" }],
+      ]);
+    });
+
+    it("excludes conditions set to false", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        conditions: {
+          invalid: "[aria-invalid=true]",
+        },
+        compoundVariants: [{ variants: { size: "md" }, conditions: { invalid: false }, style: { fill: "gray" } }],
+      });
+
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_size_md:not([aria-invalid=true]) svg", { fill: "gray" });
+    });
+
+    it("applies conditions without variants to the base class", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        conditions: {
+          expanded: "[aria-expanded=true]",
+        },
+        compoundVariants: [{ variants: {}, conditions: { expanded: true }, style: { transform: "rotate(180deg)" } }],
+      });
+
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_base[aria-expanded=true] svg", {
+        transform: "rotate(180deg)",
+      });
+    });
+
+    it("throws on unknown conditions when strict", () => {
+      expect(() =>
+        globalRecipe({
+          recipe: buttonRecipe,
+          selectorGenerators: {
+            "&": (v) => `${v} svg`,
+          },
+          conditions: {
+            expanded: "[aria-expanded=true]",
+          },
+          compoundVariants: [
+            { variants: { size: "sm" }, conditions: { disabled: true } as never, style: { opacity: 0.5 } },
+          ],
+          strict: true,
+        }),
+      ).toThrowError(
+        'globalRecipe: compoundVariants[0] of recipe "button_base" references unknown condition "disabled". ' +
+          'Available conditions: "expanded"',
+      );
+    });
+  });
+
+  describe("responsive conditions", () => {
+    const buttonRecipe = createMockRecipe({
+      base: "button_base",
+      variants: {
+        size: { sm: "button_size_sm", md: "button_size_md" },
+        tone: { neutral: "button_tone_neutral", danger: "button_tone_danger" },
+      },
+    });
+    const conditions = {
+      mobile: {},
+      tablet: { "@media": "(min-width: 768px)" },
+      card: { "@container": "card (min-width: 400px)", "@supports": "(display: grid)" },
+      expanded: "[aria-expanded=true]",
+    };
+
+    it("emits values keyed by condition inside the condition's at-rules", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+          "&:hover": (v) => `${v}:hover svg`,
+        },
+        conditions,
+        compoundVariants: [
+          {
+            variants: { size: { tablet: "sm" } },
+            style: { width: "16px", selectors: { "&:hover": { fill: "blue" } } },
+          },
+          { variants: { size: { card: "md" } }, style: { width: "20px" } },
+        ],
+      });
+
+      expect(mockGlobalStyle.mock.calls).toEqual([
+        [".button_size_sm svg", { "@media": { "(min-width: 768px)": { width: "16px" } } }],
+        [".button_size_sm:hover svg", { "@media": { "(min-width: 768px)": { fill: "blue" } } }],
+        [
+          ".button_size_md svg",
+          { "@supports": { "(display: grid)": { "@container": { "card (min-width: 400px)": { width: "20px" } } } } },
+        ],
+      ]);
+    });
+
+    it("expands each condition in definition order, with plain values and selector conditions", () => {
+      const rules = planGlobalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        conditions,
+        compoundVariants: [
+          {
+            variants: { size: { tablet: "md", mobile: "sm" }, tone: "danger" },
+            conditions: { expanded: true },
+            style: { fill: "red" },
+          },
+        ],
+      });
+
+      expect(rules).toEqual([
+        {
+          selector: ".button_size_sm.button_tone_danger[aria-expanded=true] svg",
+          style: { fill: "red" },
+          source: { type: "compoundVariant", index: 0, selectorKey: "&", condition: "mobile" },
+        },
+        {
+          selector: ".button_size_md.button_tone_danger[aria-expanded=true] svg",
+          style: { "@media": { "(min-width: 768px)": { fill: "red" } } },
+          source: { type: "compoundVariant", index: 0, selectorKey: "&", condition: "tablet" },
+        },
+      ]);
+    });
+
+    it("throws on unknown responsive conditions when strict", () => {
+      expect(() =>
+        globalRecipe({
+          recipe: buttonRecipe,
+          selectorGenerators: {
+            "&": (v) => `${v} svg`,
+          },
+          conditions,
+          compoundVariants: [{ variants: { size: { desktop: "sm" } as never }, style: { width: "16px" } }],
+          strict: true,
+        }),
+      ).toThrowError(
+        'globalRecipe: compoundVariants[0] of recipe "button_base" references unknown responsive condition "desktop" ' +
+          'for variant "size". Available conditions: "mobile", "tablet", "card"',
+      );
+    });
+  });
+
+  describe("selector strategy", () => {
+    const buttonRecipe = createMockRecipe({
+      base: "button_base",
+      variants: {
+        size: { sm: "button_size_sm", md: "button_size_md", lg: "button_size_lg" },
+        iconOnly: { true: "button_iconOnly_true", false: "button_iconOnly_false" },
+      },
+    });
+
+    it("matches data attributes under the base class", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        selectorStrategy: "data-attribute",
+        base: { fill: "black" },
+        variants: {
+          size: { sm: { width: "16px" } },
+        },
+        compoundVariants: [
+          { variants: { size: ["sm", "md"], iconOnly: true }, style: { margin: 0 } },
+          { variants: { size: { not: "lg" } }, style: { opacity: 0.8 } },
+        ],
+      });
+
+      expect(mockGlobalStyle.mock.calls).toEqual([
+        [".button_base svg", { fill: "black" }],
+        ['.button_base[data-size="sm"] svg', { width: "16px" }],
+        ['.button_base:is([data-size="sm"], [data-size="md"])[data-icon-only="true"] svg', { margin: 0 }],
+        ['.button_base:not([data-size="lg"]) svg', { opacity: 0.8 }],
+      ]);
+    });
+
+    it("uses a custom strategy function for each variant value", () => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        selectorStrategy: (variantName, variantValue) => `[aria-${variantName}=${variantValue}]`,
+        compoundVariants: [{ variants: { size: "md", iconOnly: false }, style: { width: "20px" } }],
+      });
+
+      expect(mockGlobalStyle).toHaveBeenCalledWith("[aria-size=md][aria-iconOnly=false] svg", { width: "20px" });
+    });
+
+    it("still validates values against the recipe when strict", () => {
+      expect(() =>
+        globalRecipe({
+          recipe: buttonRecipe,
+          selectorGenerators: {
+            "&": (v) => `${v} svg`,
+          },
+          selectorStrategy: "data-attribute",
+          compoundVariants: [{ variants: { size: "xl" } as never, style: { width: "24px" } }],
+          strict: true,
+        }),
+      ).toThrowError(
+        'globalRecipe: compoundVariants[0] of recipe "button_base" references unknown value "xl" for variant "size". ' +
+          'Available values: "sm", "md", "lg"',
+      );
+    });
+  });
+
+  describe("specificity and layer", () => {
+    const createButtonRecipe = () =>
+      createMockRecipe({
+        base: "button_base",
+        variants: {
+          size: { sm: "button_size_sm", md: "button_size_md" },
+          variant: { primary: "button_variant_primary" },
+        },
+      });
+
+    it("wraps variant selectors in :where() with flat specificity", () => {
+      globalRecipe({
+        recipe: createButtonRecipe(),
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+          "&:hover": (v) => `${v}:hover svg`,
+        },
+        base: { flexShrink: 0 },
+        compoundVariants: [
+          {
+            variants: { size: "sm", variant: "primary" },
+            style: { fill: "white", selectors: { "&:hover": { fill: "blue" } } },
+          },
+          { variants: { size: { not: "sm" } }, style: { width: "20px" } },
+        ],
+        specificity: "flat",
+      });
+
+      expect(mockGlobalStyle.mock.calls).toEqual([
+        [":where(.button_base) svg", { flexShrink: 0 }],
+        [":where(.button_size_sm.button_variant_primary) svg", { fill: "white" }],
+        [":where(.button_size_sm.button_variant_primary):hover svg", { fill: "blue" }],
+        [":where(.button_base:not(.button_size_sm)) svg", { width: "20px" }],
+      ]);
+    });
+
+    it("keeps variant selectors as is with preserved specificity", () => {
+      globalRecipe({
+        recipe: createButtonRecipe(),
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        compoundVariants: [{ variants: { size: "sm", variant: "primary" }, style: { fill: "white" } }],
+        specificity: "preserve",
+      });
+
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_size_sm.button_variant_primary svg", { fill: "white" });
+    });
+
+    it("places every rule in the given layer", () => {
+      globalRecipe({
+        recipe: createButtonRecipe(),
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        base: { flexShrink: 0 },
+        compoundVariants: [
+          {
+            variants: { size: "sm" },
+            style: { width: "16px", "@media": { "(min-width: 768px)": { width: "20px" } } },
+          },
+        ],
+        layer: "components",
+      });
+
+      expect(mockGlobalStyle.mock.calls).toEqual([
+        [".button_base svg", { "@layer": { components: { flexShrink: 0 } } }],
+        [
+          ".button_size_sm svg",
+          { "@layer": { components: { width: "16px", "@media": { "(min-width: 768px)": { width: "20px" } } } } },
+        ],
+      ]);
+    });
+
+    it("throws when styles contain their own layer", () => {
+      expect(() =>
+        globalRecipe({
+          recipe: createButtonRecipe(),
+          selectorGenerators: {
+            "&": (v) => `${v} svg`,
+          },
+          base: { "@layer": { utilities: { fill: "currentColor" } } },
+          layer: "components",
+        }),
+      ).toThrowError(
+        'globalRecipe: styles of recipe "button_base" cannot contain "@layer" when the layer option is set',
+      );
+    });
+  });
+
+  describe("strict mode", () => {
+    const createButtonRecipe = () =>
+      createMockRecipe({
+        base: "button_base",
+        variants: {
+          size: { sm: "button_size_sm", md: "button_size_md" },
+        },
+      });
+
+    afterEach(() => {
+      configureGlobalRecipe({ strict: false });
+    });
+
+    it("ignores unknown variants when not strict", () => {
+      globalRecipe({
+        recipe: createButtonRecipe(),
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        // Simulates a variant type widened through a shared helper
+        compoundVariants: [{ variants: { size: "xl" } as never, style: { width: "24px" } }],
+      });
+
+      expect(mockGlobalStyle).not.toHaveBeenCalled();
+    });
+
+    it("throws on unknown variant names", () => {
+      expect(() =>
+        globalRecipe({
+          recipe: createButtonRecipe(),
+          selectorGenerators: {
+            "&": (v) => `${v} svg`,
+          },
+          compoundVariants: [
+            { variants: { size: "sm" }, style: { width: "16px" } },
+            { variants: { tone: "danger" } as never, style: { fill: "red" } },
+          ],
+          strict: true,
+        }),
+      ).toThrowError(
+        'globalRecipe: compoundVariants[1] of recipe "button_base" references unknown variant "tone". ' +
+          'Available variants: "size"',
+      );
+    });
+
+    it("throws on unknown variant values", () => {
+      expect(() =>
+        globalRecipe({
+          recipe: createButtonRecipe(),
+          selectorGenerators: {
+            "&": (v) => `${v} svg`,
+          },
+          compoundVariants: [{ variants: { size: ["sm", "xl"] } as never, style: { width: "16px" } }],
+          strict: true,
+        }),
+      ).toThrowError(
+        'globalRecipe: compoundVariants[0] of recipe "button_base" references unknown value "xl" for variant "size". ' +
+          'Available values: "sm", "md"',
+      );
+
+      expect(() =>
+        globalRecipe({
+          recipe: createButtonRecipe(),
+          selectorGenerators: {
+            "&": (v) => `${v} svg`,
+          },
+          variants: { size: { xl: { width: "24px" } } as never },
+          strict: true,
+        }),
+      ).toThrowError(
+        'globalRecipe: variants.size.xl of recipe "button_base" references unknown value "xl" for variant "size". ' +
+          'Available values: "sm", "md"',
+      );
+    });
+
+    it("throws on compound variants that match no variant class", () => {
+      expect(() =>
+        globalRecipe({
+          recipe: createButtonRecipe(),
+          selectorGenerators: {
+            "&": (v) => `${v} svg`,
+          },
+          compoundVariants: [{ variants: {}, style: { width: "16px" } }],
+          strict: true,
+        }),
+      ).toThrowError('globalRecipe: compoundVariants[0] of recipe "button_base" does not match any variant class');
+    });
+
+    it("uses the package-level default", () => {
+      configureGlobalRecipe({ strict: true });
+
+      const options = {
+        recipe: createButtonRecipe(),
+        selectorGenerators: {
+          "&": (v: string) => `${v} svg`,
+        },
+        compoundVariants: [{ variants: { size: "xl" } as never, style: { width: "24px" } }],
+      };
+
+      expect(() => globalRecipe(options)).toThrowError(/unknown value "xl"/);
+      expect(() => globalRecipe({ ...options, strict: false })).not.toThrow();
+    });
+  });
+
+  describe("base and compound variants together", () => {
+    it("applies both base and compound variant styles", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {
+          size: { sm: "button_size_sm", md: "button_size_md" },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+        },
+        base: {
+          pointerEvents: "none",
+        },
+        compoundVariants: [{ variants: { size: "sm" }, style: { width: "16px" } }],
+      });
+
+      expect(mockGlobalStyle).toHaveBeenCalledTimes(2);
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_size_sm svg", {
+        width: "16px",
+      });
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_base svg", {
+        pointerEvents: "none",
+      });
+    });
+  });
+
+  describe("advanced globalStyle properties", () => {
+    it("passes through at-rules (@layer, @media, @supports, etc.)", () => {
+      const buttonRecipe = createMockRecipe({
+        base: "button_base",
+        variants: {
+          size: { sm: "button_size_sm" },
+        },
+      });
+
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: {
+          "&": (v) => `${v} svg`,
+          "&:hover": (v) => `${v}:hover svg`,
+        },
+        base: {
+          width: "20px",
+          "@layer": {
+            utilities: {
+              fill: "currentColor",
+            },
+          },
+          "@media": {
+            "(prefers-reduced-motion: reduce)": {
+              transition: "none",
+            },
+          },
+          "@supports": {
+            "(aspect-ratio: 1)": {
+              aspectRatio: "1",
+            },
+          },
+          selectors: {
+            "&:hover": {
+              fill: "blue",
+              "@media": {
+                "(prefers-reduced-motion: no-preference)": {
+                  transition: "fill 0.2s",
+                },
+              },
+            },
+          },
+        },
+        compoundVariants: [
+          {
+            variants: { size: "sm" },
+            style: {
+              width: "16px",
+              "@media": {
+                "(min-width: 768px)": {
+                  width: "20px",
+                },
+              },
+              selectors: {
+                "&:hover": {
+                  transform: "scale(1.1)",
+                },
+              },
+            },
+          },
+        ],
+      });
+
+      expect(mockGlobalStyle).toHaveBeenCalledTimes(4);
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_base svg", {
+        width: "20px",
+        "@layer": {
+          utilities: {
+            fill: "currentColor",
+          },
+        },
+        "@media": {
+          "(prefers-reduced-motion: reduce)": {
+            transition: "none",
+          },
+        },
+        "@supports": {
+          "(aspect-ratio: 1)": {
+            aspectRatio: "1",
+          },
+        },
+      });
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_base:hover svg", {
+        fill: "blue",
+        "@media": {
+          "(prefers-reduced-motion: no-preference)": {
+            transition: "fill 0.2s",
+          },
+        },
+      });
+      expect(mockGlobalStyle).toHaveBeenCalledWith(".button_size_sm svg", {
+        width: "16px",
+        "@media": {
+          "(min-width: 768px)": {
             width: "20px",
           },
         },
@@ -397,3 +1570,294 @@ describe("globalRecipe", () => {
     });
   });
 });
+
+describe("globalRecipe handle", () => {
+  const buttonRecipe = createMockRecipe({
+    base: "button_base",
+    variants: {
+      size: { sm: "button_size_sm", md: "button_size_md" },
+      iconOnly: { true: "button_iconOnly_true" },
+    },
+  });
+
+  it("exposes the resolved selectors of base and compound variants", () => {
+    const handle = globalRecipe({
+      recipe: buttonRecipe,
+      selectorGenerators: {
+        "&": (v) => `${v} svg`,
+        "&:hover": (v) => `${v}:hover svg`,
+      },
+      base: { fill: "black" },
+      compoundVariants: [
+        { variants: { size: "sm", iconOnly: true }, style: { width: "16px" } },
+        { variants: { size: "xl" } as never, style: { width: "24px" } },
+      ],
+    });
+
+    expect(handle.base).toEqual({ "&": ".button_base svg", "&:hover": ".button_base:hover svg" });
+    expect(handle.compoundVariants).toEqual([
+      {
+        "&": ".button_size_sm.button_iconOnly_true svg",
+        "&:hover": ".button_size_sm.button_iconOnly_true:hover svg",
+      },
+      undefined,
+    ]);
+    expect(handle.rules.map(({ selector }) => selector)).toEqual([
+      ".button_base svg",
+      ".button_size_sm.button_iconOnly_true svg",
+    ]);
+  });
+
+  it("looks up the selector of any variant selection", () => {
+    const handle = globalRecipe({
+      recipe: buttonRecipe,
+      selectorGenerators: {
+        "&": (v) => `${v} svg`,
+        "&:hover": (v) => `${v}:hover svg`,
+      },
+      specificity: "flat",
+    });
+
+    expect(handle.selectorFor({ size: "sm" })).toBe(":where(.button_size_sm) svg");
+    expect(handle.selectorFor({ size: ["sm", "md"] }, "&:hover")).toBe(
+      ":where(:is(.button_size_sm, .button_size_md)):hover svg",
+    );
+    expect(handle.selectorFor({})).toBe(":where(.button_base) svg");
+    expect(() => handle.selectorFor({ size: "xl" } as never)).toThrowError(
+      'globalRecipe: selectorFor of recipe "button_base" references unknown value "xl" for variant "size". ' +
+        'Available values: "sm", "md"',
+    );
+  });
+
+  it("joins the selectors of every recipe", () => {
+    const iconButtonRecipe = createMockRecipe({
+      base: "iconButton_base",
+      variants: {
+        size: { sm: "iconButton_size_sm", md: "iconButton_size_md" },
+      },
+    });
+
+    const handle = globalRecipe({
+      recipe: [buttonRecipe, iconButtonRecipe],
+      selectorGenerators: {
+        "&": (v) => `${v} svg`,
+      },
+    });
+
+    expect(handle.selectorFor({ size: "md" })).toBe(".button_size_md svg, .iconButton_size_md svg");
+  });
+});
+
+describe("planGlobalRecipe", () => {
+  beforeEach(() => {
+    mockGlobalStyle.mockClear();
+  });
+
+  it("returns ordered rules with their sources without calling globalStyle", () => {
+    const buttonRecipe = createMockRecipe({
+      base: "button_base",
+      variants: {
+        size: { sm: "button_size_sm", md: "button_size_md" },
+        tone: { danger: "button_tone_danger" },
+      },
+    });
+
+    const rules = planGlobalRecipe({
+      recipe: buttonRecipe,
+      selectorGenerators: {
+        "&": (v) => `${v} svg`,
+        "&:hover": (v) => `${v}:hover svg`,
+      },
+      base: {
+        flexShrink: 0,
+        selectors: {
+          "&:hover": { fill: "blue" },
+        },
+      },
+      variants: {
+        size: { md: { width: "20px" } },
+      },
+      compoundVariants: [{ variants: { size: "sm", tone: "danger" }, style: { fill: "red" } }],
+    });
+
+    expect(mockGlobalStyle).not.toHaveBeenCalled();
+    expect(rules).toEqual([
+      {
+        selector: ".button_base svg",
+        style: { flexShrink: 0 },
+        source: { type: "base", selectorKey: "&" },
+      },
+      {
+        selector: ".button_base:hover svg",
+        style: { fill: "blue" },
+        source: { type: "base", selectorKey: "&:hover" },
+      },
+      {
+        selector: ".button_size_md svg",
+        style: { width: "20px" },
+        source: { type: "variant", variant: "size", value: "md", selectorKey: "&" },
+      },
+      {
+        selector: ".button_size_sm.button_tone_danger svg",
+        style: { fill: "red" },
+        source: { type: "compoundVariant", index: 0, selectorKey: "&" },
+      },
+    ]);
+  });
+
+  it("consolidates rules when optimize is enabled", () => {
+    const buttonRecipe = createMockRecipe({
+      base: "button_base",
+      variants: {
+        size: { sm: "button_size_sm", md: "button_size_md", lg: "button_size_lg" },
+      },
+    });
+
+    const rules = planGlobalRecipe({
+      recipe: buttonRecipe,
+      selectorGenerators: {
+        "&": (v) => `${v} svg`,
+      },
+      variants: {
+        size: {
+          sm: { width: "16px" },
+          md: { width: "16px" },
+          lg: { width: "24px" },
+        },
+      },
+      compoundVariants: [{ variants: { size: "lg" }, style: { height: "24px" } }],
+      optimize: true,
+    });
+
+    expect(rules.map(({ selector, style }) => [selector, style])).toEqual([
+      [".button_size_sm svg, .button_size_md svg", { width: "16px" }],
+      [".button_size_lg svg", { width: "24px", height: "24px" }],
+    ]);
+  });
+
+  it("matches the rules registered by globalRecipe", () => {
+    const buttonRecipe = createMockRecipe({
+      base: "button_base",
+      variants: {
+        size: { sm: "button_size_sm", md: "button_size_md" },
+      },
+    });
+
+    const options = {
+      recipe: buttonRecipe,
+      selectorGenerators: {
+        "&": (v: string) => `${v} svg`,
+      },
+      base: { pointerEvents: "none" as const },
+      compoundVariants: [
+        { variants: { size: "sm" as const }, style: { width: "16px" } },
+        { variants: { size: "md" as const }, style: { width: "20px" } },
+      ],
+    };
+
+    globalRecipe(options);
+
+    expect(mockGlobalStyle.mock.calls).toEqual(
+      planGlobalRecipe(options).map(({ selector, style }) => [selector, style]),
+    );
+  });
+});
+
+describe("renderGlobalRecipeCss", () => {
+  const buttonRecipe = createMockRecipe({
+    base: "button_base",
+    variants: {
+      size: { sm: "button_size_sm" },
+    },
+  });
+
+  it("serializes property names and values like globalStyle", () => {
+    const css = renderGlobalRecipeCss({
+      recipe: buttonRecipe,
+      selectorGenerators: {
+        "&": (v) => `${v} svg`,
+      },
+      base: {
+        width: 20,
+        opacity: 0.5,
+        margin: 0,
+        WebkitTapHighlightColor: "transparent",
+        display: ["flex", "grid"],
+        vars: { "--icon-color": "currentColor" },
+      },
+    });
+
+    expect(css).toBe(
+      [
+        ".button_base svg {",
+        "  --icon-color: currentColor;",
+        "  width: 20px;",
+        "  opacity: 0.5;",
+        "  margin: 0;",
+        "  -webkit-tap-highlight-color: transparent;",
+        "  display: flex;",
+        "  display: grid;",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  it("renders selectors and nested at-rules after plain rules", () => {
+    const css = renderGlobalRecipeCss({
+      recipe: buttonRecipe,
+      selectorGenerators: {
+        "&": (v) => `${v} svg`,
+        "&:hover": (v) => `${v}:hover svg`,
+      },
+      base: {
+        width: "20px",
+        "@media": {
+          "(prefers-reduced-motion: reduce)": {
+            transition: "none",
+            "@supports": { "(aspect-ratio: 1)": { aspectRatio: "1" } },
+          },
+        },
+        "@container": {
+          "(min-width: 400px)": { width: "24px" },
+        },
+        selectors: {
+          "&:hover": { fill: "blue" },
+        },
+      },
+      compoundVariants: [{ variants: { size: "sm" }, style: { width: "16px" } }],
+      layer: "components",
+    });
+
+    expect(css).toBe(
+      [
+        "@layer components;",
+        "@layer components {",
+        "  .button_base svg {",
+        "    width: 20px;",
+        "  }",
+        "  .button_base:hover svg {",
+        "    fill: blue;",
+        "  }",
+        "  .button_size_sm svg {",
+        "    width: 16px;",
+        "  }",
+        "  @media (prefers-reduced-motion: reduce) {",
+        "    .button_base svg {",
+        "      transition: none;",
+        "    }",
+        "    @supports (aspect-ratio: 1) {",
+        "      .button_base svg {",
+        "        aspect-ratio: 1;",
+        "      }",
+        "    }",
+        "  }",
+        "  @container (min-width: 400px) {",
+        "    .button_base svg {",
+        "      width: 24px;",
+        "    }",
+        "  }",
+        "}",
+      ].join("\n"),
+    );
+  });
+});
@@ -1,30 +1,271 @@
 import { ComplexStyleRule, globalStyle } from "@vanilla-extract/css";
+import { transformCss } from "@vanilla-extract/css/transformCss";
 import { type RuntimeFn } from "@vanilla-extract/recipes";
+import { optimizeRules } from "./optimizeRules";
+import { isElementName } from "./elementNames";
+import {
+  compileSelectorTemplate,
+  getTypeSelectors,
+  isParseableSelector,
+  splitSelectorList,
+  type SelectorTemplate,
+} from "./selectorTemplate";
+import { getCallSite, recordRegistration, type DuplicateRegistrationMode } from "./registry";
+import type { VariantSource } from "./variantSource";
 
 /* Types excerpted from `@vanilla-extract/recipes`*/
 type RecipeStyleRule = ComplexStyleRule | string;
 type VariantDefinitions = Record<string, RecipeStyleRule>;
 type BooleanMap<T> = T extends "true" | "false" ? boolean : T;
-type VariantGroups = Record<string, VariantDefinitions>;
+export type VariantGroups = Record<string, VariantDefinitions>;
 type VariantSelection<Variants extends VariantGroups> = {
   [VariantGroup in keyof Variants]?: BooleanMap<keyof Variants[VariantGroup]> | undefined;
 };
 /* End of excerption */
 
+type VariantValues<Variants extends VariantGroups, VariantGroup extends keyof Variants> =
+  | VariantSelection<Variants>[VariantGroup]
+  | NonNullable<VariantSelection<Variants>[VariantGroup]>[];
+export type CompoundVariantSelection<Variants extends VariantGroups> = {
+  [VariantGroup in keyof Variants]?:
+    | VariantValues<Variants, VariantGroup>
+    | { not: NonNullable<VariantValues<Variants, VariantGroup>> };
+};
+
 type GlobalStyleRule = Parameters<typeof globalStyle>[1];
-type ExtractVariantGroups<T> = T extends RuntimeFn<infer V> ? V : never;
+/** Variant groups and values shared by every member of a union of variant groups */
+type SharedVariantGroups<Variants> = {
+  [VariantGroup in keyof Variants & string]: { [VariantValue in keyof Variants[VariantGroup] & string]: string };
+};
+/** One recipe, or several recipes sharing variant groups */
+type RecipeInput = VariantSource | readonly VariantSource[];
+export type ExtractVariantGroups<T> = T extends readonly VariantSource[]
+  ? SharedVariantGroups<ExtractVariantGroups<T[number]>>
+  : T extends RuntimeFn<infer V>
+    ? V
+    : T extends VariantSource<infer V>
+      ? V
+      : never;
 
 type SelectorGenerators = Record<string, (variantSelector: string) => string>;
-type StyleRuleWithSelectors<TSelectors extends string> = GlobalStyleRule & {
+/** Selector generators as written in options: functions, or templates with `&` in place of the variant selector */
+type SelectorGeneratorsInput = Record<string, ((variantSelector: string) => string) | SelectorTemplate>;
+export type StyleRuleWithSelectors<TSelectors extends string> = GlobalStyleRule & {
   selectors?: Partial<Record<Exclude<TSelectors, "&">, GlobalStyleRule>>;
 };
+type StateSelectors = Record<string, string>;
+type ScopeSelectors = Record<string, string>;
+/** A condition emitting rules inside at-rules, modeled on sprinkles conditions; `{}` for the default */
+type ResponsiveCondition = { "@media"?: string; "@supports"?: string; "@container"?: string };
+type ConditionSelectors = Record<string, string | ResponsiveCondition>;
+/** Keys of conditions given as selectors */
+type SelectorConditionKeys<TConditions> = {
+  [Condition in keyof TConditions & string]: TConditions[Condition] extends string ? Condition : never;
+}[keyof TConditions & string];
+/** Required (`true`) or excluded (`false`) selector conditions; none can be given without selector conditions */
+type ConditionSelection<TConditionKeys extends string> = [TConditionKeys] extends [never]
+  ? Record<string, never>
+  : Partial<Record<TConditionKeys, boolean>>;
+/** Keys of conditions given as at-rules, usable as keys of responsive variant values */
+type ResponsiveConditionKeys<TConditions> = Exclude<
+  {
+    [Condition in keyof TConditions & string]: TConditions[Condition] extends string ? never : Condition;
+  }[keyof TConditions & string],
+  "not"
+>;
+/** A compound variant selection whose values can also be keyed by responsive condition */
+type ResponsiveVariantSelection<Variants extends VariantGroups, TResponsiveConditions extends string> = {
+  [VariantGroup in keyof Variants]?:
+    | CompoundVariantSelection<Variants>[VariantGroup]
+    | ([TResponsiveConditions] extends [never]
+        ? never
+        : { [Condition in TResponsiveConditions]?: CompoundVariantSelection<Variants>[VariantGroup] });
+};
+/** The `variants` of a compound variant entry of `globalRecipe` */
+type CompoundSelectionInput<
+  TRecipe extends RecipeInput,
+  TConditions extends ConditionSelectors,
+> = ResponsiveVariantSelection<ExtractVariantGroups<TRecipe>, ResponsiveConditionKeys<TConditions>>;
+/** Rejects the keys of an inferred compound variant selection that are not variant groups, `not` or conditions */
+type ExactCompoundSelection<
+  TSelection,
+  TRecipe extends RecipeInput,
+  TConditions extends ConditionSelectors,
+> = TSelection extends unknown
+  ? {
+      [VariantGroup in keyof TSelection]: VariantGroup extends keyof ExtractVariantGroups<TRecipe>
+        ? TSelection[VariantGroup] extends string | boolean | readonly unknown[] | undefined
+          ? unknown
+          : {
+              [Key in Exclude<keyof TSelection[VariantGroup], "not" | ResponsiveConditionKeys<TConditions>>]: never;
+            }
+        : never;
+    }
+  : never;
+type SlotStyle<
+  TSelectors extends string,
+  TSlots extends string,
+  TStates extends string,
+> = StyleRuleWithSelectors<TSelectors> & {
+  slots?: Partial<Record<TSlots, StyleRuleWithSelectors<`&:${TStates}`>>>;
+};
+type GlobalRecipeStyle<
+  TSelectors extends string,
+  TSlots extends string,
+  TStates extends string,
+  TScopes extends string,
+> = SlotStyle<TSelectors, TSlots, TStates> & {
+  scopes?: Partial<Record<TScopes, SlotStyle<TSelectors, TSlots, TStates>>>;
+};
+/** The style type of `globalRecipe` options, keyed by the defined generators, slots, states and scopes */
+type RecipeStyle<TGenerators, TSlots, TStates, TScopes> = GlobalRecipeStyle<
+  keyof TGenerators & string,
+  keyof TSlots & string,
+  keyof TStates & string,
+  keyof TScopes & string
+>;
+type VariantStyles<Variants extends VariantGroups, TStyle> = {
+  [VariantGroup in keyof Variants]?: {
+    [VariantValue in keyof Variants[VariantGroup]]?: TStyle;
+  };
+};
+/** Blocks inference from a position, like `NoInfer` of TypeScript 5.4 */
+type NoInference<T> = [T][T extends unknown ? 0 : never];
+/** Groups a compound variant selection sets, i.e. whose value cannot be `undefined` */
+type SelectedGroups<TSelection> = {
+  [VariantGroup in keyof TSelection & string]: undefined extends TSelection[VariantGroup] ? never : VariantGroup;
+}[keyof TSelection & string];
+/** Values of a variant group a compound variant value matches everywhere; none for responsive values */
+type SelectedValues<TValues extends string, TValue> = TValue extends { not: infer TExcluded }
+  ? Exclude<TValues, SelectedValues<TValues, TExcluded>>
+  : TValue extends readonly (infer TItem)[]
+    ? `${TItem & (string | boolean)}`
+    : TValue extends string | boolean
+      ? `${TValue}`
+      : never;
+/** Values of a variant group styled by compound variants selecting that group alone */
+type CompoundCoveredValues<
+  Variants extends VariantGroups,
+  VariantGroup extends keyof Variants & string,
+  TSelection,
+> = TSelection extends unknown
+  ? [SelectedGroups<TSelection>] extends [never]
+    ? never
+    : [SelectedGroups<TSelection>] extends [VariantGroup]
+      ? SelectedValues<keyof Variants[VariantGroup] & string, TSelection[VariantGroup & keyof TSelection]>
+      : never
+  : never;
+/** Values of each exhaustive variant group that neither `matrix` nor a compound variant covers */
+type UncoveredValues<
+  Variants extends VariantGroups,
+  TExhaustive extends keyof Variants & string,
+  TMatrixGroups extends keyof Variants & string,
+  TCompoundSelection,
+> = {
+  [VariantGroup in Exclude<TExhaustive, TMatrixGroups> as [
+    Exclude<keyof Variants[VariantGroup] & string, CompoundCoveredValues<Variants, VariantGroup, TCompoundSelection>>,
+  ] extends [never]
+    ? never
+    : VariantGroup]: Exclude<
+    keyof Variants[VariantGroup] & string,
+    CompoundCoveredValues<Variants, VariantGroup, TCompoundSelection>
+  >;
+};
+/** Requires the values of exhaustive variant groups that nothing else covers to be styled */
+type ExhaustiveVariantStyles<TUncovered, TStyle> = {
+  [VariantGroup in keyof TUncovered]: {
+    [VariantValue in TUncovered[VariantGroup] & string]: TStyle;
+  };
+};
+/** The value of each variant group of a matrix combination */
+type MatrixVariants<Variants extends VariantGroups, TMatrixGroups extends keyof Variants> = {
+  [VariantGroup in TMatrixGroups]: BooleanMap<keyof Variants[VariantGroup]>;
+};
+/** `variants` becomes required when values of exhaustive variant groups are not covered otherwise */
+type ExhaustiveOptions<
+  TRecipe extends RecipeInput,
+  TExhaustive extends keyof ExtractVariantGroups<TRecipe> & string,
+  TMatrixGroups extends keyof ExtractVariantGroups<TRecipe> & string,
+  TCompoundSelection,
+> = [keyof UncoveredValues<ExtractVariantGroups<TRecipe>, TExhaustive, TMatrixGroups, TCompoundSelection>] extends [
+  never,
+]
+  ? unknown
+  : { variants: unknown };
+
+/**
+ * How a variant value is matched:
+ * - `"class"`: by the recipe's variant class
+ * - `"data-attribute"`: by a `data-*` attribute on the element with the recipe's base class
+ * - a function returning the selector for a variant name and value
+ */
+export type VariantSelectorStrategy =
+  | "class"
+  | "data-attribute"
+  | ((variantName: string, variantValue: string) => string);
+
+/** Options controlling how rules are generated, shared by `globalRecipe` and `globalRecipes` */
+export interface GlobalRecipeOutputOptions {
+  /**
+   * Throw an error when a variant name or value does not exist in the recipe,
+   * or when a compound variant matches no variant class.
+   * Defaults to the package-level setting of `configureGlobalRecipe`.
+   */
+  strict?: boolean;
+  /**
+   * How variant values are turned into selectors.
+   * - `"class"` (default): the recipe's variant classes, e.g. `.button_size_md`
+   * - `"data-attribute"`: attributes on the element with the base class, e.g. `.button_base[data-size="md"]`,
+   *   for components that render variants as attributes
+   * - a custom function `(variantName, variantValue) => selector`
+   */
+  selectorStrategy?: VariantSelectorStrategy;
+  /**
+   * Consolidate the generated rules without changing the cascade:
+   * rules targeting the same selector are merged, and rules with identical styles
+   * are combined into one rule with a comma-joined selector.
+   */
+  optimize?: boolean;
+  /**
+   * How the variant selector contributes to specificity.
+   * - `"preserve"` (default): variant classes are used as is, so multi-variant rules are more specific
+   * - `"flat"`: the variant selector is wrapped in `:where()`, so every rule has the same specificity,
+   *   rules apply in source order and consumers can override them with a single class
+   */
+  specificity?: "preserve" | "flat";
+  /**
+   * Layer to place every generated rule in, e.g. the result of vanilla-extract's `layer()`.
+   * Styles must not contain their own `@layer` blocks.
+   */
+  layer?: string;
+}
 
-export interface GlobalRecipeOptions<TRecipe extends RuntimeFn<VariantGroups>, TGenerators extends SelectorGenerators> {
-  /** The vanilla-extract recipe function */
+export interface GlobalRecipeOptions<
+  TRecipe extends RecipeInput,
+  TGenerators extends SelectorGeneratorsInput,
+  TSlots extends SelectorGeneratorsInput = Record<never, never>,
+  TStates extends StateSelectors = Record<never, never>,
+  TExhaustive extends keyof ExtractVariantGroups<TRecipe> & string = never,
+  TMatrixGroups extends keyof ExtractVariantGroups<TRecipe> & string = never,
+  TScopes extends ScopeSelectors = Record<never, never>,
+  TConditions extends ConditionSelectors = Record<never, never>,
+  TCompoundSelection extends CompoundSelectionInput<TRecipe, TConditions> = CompoundSelectionInput<
+    TRecipe,
+    TConditions
+  >,
+> extends GlobalRecipeOutputOptions {
+  /**
+   * The vanilla-extract recipe function, or an array of recipes sharing variant groups.
+   * With an array, variants are limited to the groups and values every recipe has,
+   * and rules are generated for each recipe.
+   * Any other `VariantSource`, e.g. from `fromStyleVariants` or `fromClassNames`, can be used in place of a recipe.
+   */
   recipe: TRecipe;
   /**
    * Keyed selector generators - an object mapping selector keys to generator functions.
    * Each function receives the variant class selector and returns the full CSS selector.
+   * A string template can be used instead, with `&` in place of the variant class selector;
+   * templates must contain `&` and are checked to expand to a valid selector.
    * The "&" key is used for base styles (required).
    *
    * @example
@@ -34,6 +275,12 @@ export interface GlobalRecipeOptions<TRecipe extends RuntimeFn<VariantGroups>, T
    * }
    *
    * @example
+   * // The same generator as a template
+   * selectorGenerators: {
+   *   "&": "& svg",
+   * }
+   *
+   * @example
    * // Complex case: checkbox with pseudo-selectors
    * selectorGenerators: {
    *   "&": (v) => `${v} input + div`,
@@ -43,51 +290,602 @@ export interface GlobalRecipeOptions<TRecipe extends RuntimeFn<VariantGroups>, T
    * }
    */
   selectorGenerators: TGenerators & {
-    "&": (variantSelector: string) => string;
+    "&": ((variantSelector: string) => string) | SelectorTemplate;
   };
+  /**
+   * Keyed slot generators - each function receives the variant class selector and returns
+   * the selector of one part of the component. Styles for a slot go in the `slots` block of a style.
+   * Like `selectorGenerators`, a slot generator can be a string template.
+   *
+   * @example
+   * slots: {
+   *   icon: (v) => `${v} svg`,
+   *   label: (v) => `${v} [data-slot=label]`,
+   * }
+   */
+  slots?: TSlots & SelectorGeneratorsInput;
+  /**
+   * Keyed state selectors, combined with every slot by appending them to the variant class selector.
+   * In slot styles, a state is used as the `"&:<state>"` key of `selectors`.
+   *
+   * @example
+   * states: {
+   *   hover: ":hover",
+   *   disabled: "[data-disabled]",
+   * }
+   */
+  states?: TStates;
+  /**
+   * Keyed ancestor selectors, e.g. a theme class or a direction attribute.
+   * Styles in the `scopes` block of a style are emitted with the scope selector prepended
+   * to each selector the generators return. Class names need their leading `.`: a scope selecting
+   * elements that do not exist, such as `"theme_dark"`, throws.
+   *
+   * @example
+   * scopes: {
+   *   dark: `.${darkThemeClass}`,
+   *   rtl: "[dir=rtl]",
+   * }
+   */
+  scopes?: TScopes;
+  /**
+   * Keyed runtime conditions, e.g. ARIA or data attributes set on the element with the variant classes.
+   * Compound variants require them through their `conditions`, which appends the condition selector
+   * to the variant class selector before any generator runs.
+   *
+   * Conditions given as `@media`, `@supports` or `@container` queries (or `{}` for the default) are
+   * responsive conditions, as in sprinkles. Compound variant values keyed by them, such as
+   * `size: { tablet: "sm" }`, emit their rules inside the condition's at-rules.
+   *
+   * @example
+   * conditions: {
+   *   expanded: "[aria-expanded=true]",
+   *   open: "[data-state=open]",
+   *   mobile: {},
+   *   tablet: { "@media": "(min-width: 768px)" },
+   * }
+   */
+  conditions?: TConditions;
   /** Base styles to apply to all elements matching the selectors (uses recipe's base class) */
-  base?: StyleRuleWithSelectors<keyof TGenerators & string>;
-  /** Array of compound variant definitions with styles */
+  base?: RecipeStyle<TGenerators, TSlots, TStates, TScopes>;
+  /**
+   * Per-variant styles, shaped like the `variants` of `recipe`.
+   * Maps each variant group to its values, and each value to the styles for that variant class.
+   *
+   * @example
+   * variants: {
+   *   size: {
+   *     sm: { width: "16px" },
+   *     md: { width: "20px" },
+   *   },
+   * }
+   */
+  variants?: VariantStyles<ExtractVariantGroups<TRecipe>, RecipeStyle<TGenerators, TSlots, TStates, TScopes>> &
+    ExhaustiveVariantStyles<
+      UncoveredValues<
+        ExtractVariantGroups<TRecipe>,
+        NoInference<TExhaustive>,
+        NoInference<TMatrixGroups>,
+        NoInference<TCompoundSelection>
+      >,
+      RecipeStyle<TGenerators, TSlots, TStates, TScopes>
+    >;
+  /**
+   * Variant groups whose every value (`true` and `false` for boolean groups) must be styled: in `variants`,
+   * by a `compoundVariants` entry selecting only that group (a value, an array or `{ not }`), or by `matrix`.
+   * Missing values fail to type-check, and are reported with an error against the recipe's class names.
+   * Entries with `conditions` or responsive values only style a value some of the time, so they do not count;
+   * the type check reads inline `compoundVariants` and cannot see `conditions`.
+   *
+   * @example
+   * exhaustive: ["size"],
+   * variants: {
+   *   size: { sm: {...}, md: {...}, lg: {...} },
+   * }
+   */
+  exhaustive?: readonly TExhaustive[];
+  /**
+   * Derives styles from variant values instead of listing them one by one.
+   * The style function is called for every combination of the given groups' values,
+   * read from the recipe's class names. Return `undefined` to skip a combination.
+   * Applied after `variants` and before `compoundVariants`.
+   *
+   * @example
+   * const iconSize = { sm: 16, md: 20, lg: 24 };
+   *
+   * matrix: {
+   *   groups: ["size", "density"],
+   *   style: ({ size, density }) => ({
+   *     width: iconSize[size] - (density === "compact" ? 4 : 0),
+   *   }),
+   * }
+   */
+  matrix?: {
+    groups: readonly TMatrixGroups[];
+    style: (
+      variants: MatrixVariants<ExtractVariantGroups<TRecipe>, TMatrixGroups>,
+    ) => RecipeStyle<TGenerators, TSlots, TStates, TScopes> | undefined;
+  };
+  /**
+   * Array of compound variant definitions with styles.
+   * A variant value can be an array to match any of the listed values,
+   * or `{ not: value }` to match everything except the given value(s),
+   * or keyed by responsive condition (e.g. `{ tablet: "sm" }`) to match it under that condition.
+   * `conditions` requires (`true`) or excludes (`false`) the keyed selector conditions.
+   */
   compoundVariants?: {
-    variants: VariantSelection<ExtractVariantGroups<TRecipe>>;
-    style: StyleRuleWithSelectors<keyof TGenerators & string>;
+    // Inferred to read exhaustive coverage; the union keeps entries of non-literal arrays assignable
+    variants: (TCompoundSelection | CompoundSelectionInput<TRecipe, TConditions>) &
+      ExactCompoundSelection<NoInference<TCompoundSelection>, TRecipe, TConditions>;
+    conditions?: ConditionSelection<SelectorConditionKeys<TConditions>>;
+    style: RecipeStyle<TGenerators, TSlots, TStates, TScopes>;
   }[];
 }
 
+/** An entry of the `globalRecipe` options that produces rules */
+export type GlobalRecipeEntry =
+  | { type: "base" }
+  | { type: "variant"; variant: string; value: string }
+  | { type: "matrix"; variants: Record<string, string | boolean> }
+  | { type: "compoundVariant"; index: number };
+
+/** Where a planned rule comes from in the `globalRecipe` options */
+export type GlobalRecipeRuleSource = GlobalRecipeEntry & {
+  /** The `selectorGenerators` key used to build the selector, or `"&:<state>"` for slot states */
+  selectorKey: string;
+  /** The slot the rule targets, for rules from a `slots` block */
+  slot?: string;
+  /** The ancestor scope of the rule, for rules from a `scopes` block */
+  scope?: string;
+  /** The responsive condition the rule is emitted under, for responsive compound variant values */
+  condition?: string;
+};
+
+/** A single rule that `globalRecipe` registers with `globalStyle` */
+export interface GlobalRecipeRule {
+  selector: string;
+  style: GlobalStyleRule;
+  source: GlobalRecipeRuleSource;
+  /** All sources of a rule consolidated by `optimize`, in order */
+  sources?: GlobalRecipeRuleSource[];
+}
+
+/** Describes what a `globalRecipe` call registered */
+export interface GlobalRecipeHandle<Variants extends VariantGroups, TSelectorKey extends string> {
+  /** Selectors of the base styles, keyed by `selectorGenerators` key */
+  base: Record<TSelectorKey, string>;
+  /** Selectors of each `compoundVariants` entry, in order, or `undefined` for entries that match nothing */
+  compoundVariants: (Record<TSelectorKey, string> | undefined)[];
+  /** The registered rules, as returned by `planGlobalRecipe` */
+  rules: GlobalRecipeRule[];
+  /**
+   * Returns the selector of a variant selection for a `selectorGenerators` key (`"&"` by default).
+   * Unknown variants always throw; an empty selection returns the base selector.
+   *
+   * @example
+   * handle.selectorFor({ size: "sm" }, "&:hover"); // ".button_size_sm:hover svg"
+   */
+  selectorFor(variants: CompoundVariantSelection<Variants>, selectorKey?: TSelectorKey): string;
+}
+
+export interface GlobalRecipeConfig {
+  /** Default for the `strict` option of `globalRecipe` */
+  strict?: boolean;
+  /**
+   * What to do when a call registers a selector that is already registered, either by the same call
+   * (its module evaluated twice) or by another call. Defaults to `"warn"`. Modules evaluated again
+   * later, e.g. by hot module reloading, replace their earlier registrations and are not reported.
+   */
+  duplicates?: DuplicateRegistrationMode;
+}
+
+export const config: Required<GlobalRecipeConfig> = {
+  strict: false,
+  duplicates: "warn",
+};
+
+/**
+ * Sets package-level defaults for every subsequent `globalRecipe` call.
+ *
+ * @example
+ * configureGlobalRecipe({ strict: true });
+ */
+export function configureGlobalRecipe(options: GlobalRecipeConfig): void {
+  Object.assign(config, options);
+}
+
+/** Receives registered rules in place of `globalStyle` while set, see `captureGlobalRules` in `./testing` */
+export const ruleSink: { capture: ((rule: GlobalRecipeRule) => void) | undefined } = {
+  capture: undefined,
+};
+
+/**
+ * Registers rules with `globalStyle` and records them in the registry, or hands them to the active
+ * capture
+ */
+export function registerRules(recipes: VariantSource[], rules: GlobalRecipeRule[], callSite: string): void {
+  const { capture } = ruleSink;
+  if (capture) {
+    rules.forEach(capture);
+    return;
+  }
+  recordRegistration(recipes, rules, callSite, config.duplicates);
+  for (const { selector, style } of rules) {
+    globalStyle(selector, style);
+  }
+}
+
+const toKebabCase = (name: string): string => name.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+
+export const formatNames = (names: string[]): string =>
+  names.length > 0 ? names.map((name) => `"${name}"`).join(", ") : "(none)";
+
 /**
  * Builds a CSS class name selector string from recipe variant values.
+ * Array values match any of the listed values and are combined with `:is()`.
+ * Negated values (`{ not: value }`) become `:not()` clauses, scoped to the recipe's base class.
+ * With the `"data-attribute"` strategy, attribute selectors are always scoped to the base class.
  *
- * @param recipe - The vanilla-extract recipe function
+ * @param recipe - The vanilla-extract recipe function, or another variant source
  * @param variants - Object mapping variant names to their values
+ * @param strict - Whether to throw on variant names and values missing from the recipe
+ * @param entry - Description of the entry being built, used in error messages
+ * @param strategy - How each variant value is turned into a selector
  * @returns A dot-joined class name string for use in CSS selectors
  *
  * @example
  * const selector = buildVariantSelector(buttonStyle, { size: "md", iconOnly: true });
  * // Returns something like ".button_size_md.button_iconOnly_true"
+ *
+ * @example
+ * const selector = buildVariantSelector(buttonStyle, { size: ["sm", "md"] });
+ * // Returns something like ":is(.button_size_sm, .button_size_md)"
+ *
+ * @example
+ * const selector = buildVariantSelector(buttonStyle, { size: { not: "lg" } });
+ * // Returns something like ".button_base:not(.button_size_lg)"
+ *
+ * @example
+ * const selector = buildVariantSelector(buttonStyle, { size: "md" }, false, "variants", "data-attribute");
+ * // Returns something like '.button_base[data-size="md"]'
  */
-function buildVariantSelector<TRecipe extends RuntimeFn<VariantGroups>>(
+export function buildVariantSelector<TRecipe extends VariantSource>(
   recipe: TRecipe,
-  variants: VariantSelection<ExtractVariantGroups<TRecipe>>,
+  variants: CompoundVariantSelection<ExtractVariantGroups<TRecipe>>,
+  strict: boolean,
+  entry: string,
+  strategy: VariantSelectorStrategy = "class",
 ): string {
   const classNames = recipe.classNames.variants;
   const parts: string[] = [];
+  let hasNegation = false;
 
   for (const [variantName, variantValue] of Object.entries(variants)) {
     if (variantValue === undefined) continue;
 
     const variantClassNames = classNames[variantName];
-    if (!variantClassNames) continue;
+    if (!variantClassNames) {
+      if (strict) {
+        throw new Error(
+          `globalRecipe: ${entry} of recipe "${recipe.classNames.base}" references unknown variant "${variantName}". ` +
+            `Available variants: ${formatNames(Object.keys(classNames))}`,
+        );
+      }
+      continue;
+    }
+
+    const negated = typeof variantValue === "object" && !Array.isArray(variantValue);
+    const matchedValue: string | boolean | (string | boolean)[] = negated ? variantValue.not : variantValue;
+    const variantValues = Array.isArray(matchedValue) ? matchedValue : [matchedValue];
+    const classSelectors: string[] = [];
+    for (const value of variantValues) {
+      const key = typeof value === "boolean" ? (value ? "true" : "false") : value;
+      const className = variantClassNames[key];
+      if (className) {
+        classSelectors.push(
+          strategy === "class"
+            ? `.${className}`
+            : strategy === "data-attribute"
+              ? `[data-${toKebabCase(variantName)}="${key}"]`
+              : strategy(variantName, key),
+        );
+      } else if (strict) {
+        throw new Error(
+          `globalRecipe: ${entry} of recipe "${recipe.classNames.base}" references unknown value "${key}" ` +
+            `for variant "${variantName}". Available values: ${formatNames(Object.keys(variantClassNames))}`,
+        );
+      }
+    }
+
+    if (classSelectors.length === 0) continue;
 
-    const key = typeof variantValue === "boolean" ? (variantValue ? "true" : "false") : variantValue;
-    const className = variantClassNames[key];
-    if (className) {
-      parts.push(`.${className}`);
+    if (negated) {
+      hasNegation = true;
+      parts.push(`:not(${classSelectors.join(", ")})`);
+    } else if (classSelectors.length === 1) {
+      parts.push(classSelectors[0]);
+    } else {
+      parts.push(`:is(${classSelectors.join(", ")})`);
     }
   }
 
+  if (parts.length > 0 && (hasNegation || strategy === "data-attribute")) {
+    parts.unshift(`.${recipe.classNames.base}`);
+  }
+
   return parts.join("");
 }
 
+/**
+ * Returns every combination of the given variant groups' values shared by all recipes.
+ * Boolean variant values are returned as booleans.
+ *
+ * @example
+ * expandMatrix([buttonStyle], ["size", "disabled"]);
+ * // [{ size: "sm", disabled: true }, { size: "sm", disabled: false }, { size: "md", disabled: true }, ...]
+ */
+function expandMatrix(
+  recipes: readonly VariantSource[],
+  groups: readonly string[],
+): Record<string, string | boolean>[] {
+  let combinations: Record<string, string | boolean>[] = [{}];
+
+  for (const group of groups) {
+    const [firstRecipe, ...otherRecipes] = recipes;
+    const values = Object.keys(firstRecipe.classNames.variants[group] ?? {}).filter((value) =>
+      otherRecipes.every((recipe) => value in (recipe.classNames.variants[group] ?? {})),
+    );
+
+    combinations = combinations.flatMap((combination) =>
+      values.map((value) => ({
+        ...combination,
+        [group]: value === "true" ? true : value === "false" ? false : value,
+      })),
+    );
+  }
+
+  return combinations;
+}
+
+/**
+ * Builds the selector suffix for the conditions required or excluded by an entry.
+ * Required conditions are appended as-is, excluded ones are wrapped in `:not()`.
+ *
+ * @example
+ * buildConditionSelector({ expanded: "[aria-expanded=true]" }, { expanded: false }, false, "compoundVariants[0]");
+ * // ":not([aria-expanded=true])"
+ */
+function buildConditionSelector(
+  conditions: ConditionSelectors,
+  selection: Partial<Record<string, boolean>>,
+  strict: boolean,
+  entry: string,
+): string {
+  let selector = "";
+
+  for (const [condition, required] of Object.entries(selection)) {
+    if (required === undefined) continue;
+
+    const conditionSelector = conditions[condition];
+    if (typeof conditionSelector !== "string") {
+      if (strict) {
+        const selectorConditions = Object.keys(conditions).filter((name) => typeof conditions[name] === "string");
+        throw new Error(
+          `globalRecipe: ${entry} references unknown condition "${condition}". ` +
+            `Available conditions: ${formatNames(selectorConditions)}`,
+        );
+      }
+      continue;
+    }
+
+    selector += required ? conditionSelector : `:not(${conditionSelector})`;
+  }
+
+  return selector;
+}
+
+/**
+ * Returns the values of a variant group that a compound variant value matches under every condition:
+ * the value itself, the values of an array, or every value but the excluded ones. Responsive values match none.
+ *
+ * @example
+ * getSelectedValues({ not: "sm" }, ["sm", "md", "lg"]); // ["md", "lg"]
+ */
+function getSelectedValues(variantValue: unknown, variantValues: string[]): string[] {
+  if (Array.isArray(variantValue)) return variantValue.map(String);
+  if (typeof variantValue === "object" && variantValue !== null) {
+    if (!("not" in variantValue)) return [];
+    const excludedValues = getSelectedValues(variantValue.not, variantValues);
+    return variantValues.filter((value) => !excludedValues.includes(value));
+  }
+  return [String(variantValue)];
+}
+
+/**
+ * Splits a selection with values keyed by responsive condition into a plain selection per condition,
+ * in the order the conditions are defined. Groups without a value for a condition do not constrain it.
+ *
+ * @example
+ * expandResponsiveSelection(
+ *   { mobile: {}, tablet: { "@media": "(min-width: 768px)" } },
+ *   { size: { mobile: "sm", tablet: "md" }, tone: "danger" },
+ *   false,
+ *   "compoundVariants[0]",
+ * );
+ * // [
+ * //   { condition: "mobile", selection: { size: "sm", tone: "danger" } },
+ * //   { condition: "tablet", selection: { size: "md", tone: "danger" } },
+ * // ]
+ */
+function expandResponsiveSelection(
+  conditions: ConditionSelectors,
+  selection: Record<string, unknown>,
+  strict: boolean,
+  entry: string,
+): { condition?: string; selection: CompoundVariantSelection<VariantGroups> }[] {
+  const responsiveValues = new Map<string, Record<string, unknown>>();
+  for (const [variantName, variantValue] of Object.entries(selection)) {
+    if (
+      typeof variantValue === "object" &&
+      variantValue !== null &&
+      !Array.isArray(variantValue) &&
+      !("not" in variantValue)
+    ) {
+      responsiveValues.set(variantName, variantValue as Record<string, unknown>);
+    }
+  }
+  if (responsiveValues.size === 0) {
+    return [{ selection: selection as CompoundVariantSelection<VariantGroups> }];
+  }
+
+  const responsiveConditions = Object.keys(conditions).filter((name) => typeof conditions[name] !== "string");
+  if (strict) {
+    for (const [variantName, values] of responsiveValues) {
+      const unknownCondition = Object.keys(values).find((condition) => !responsiveConditions.includes(condition));
+      if (unknownCondition !== undefined) {
+        throw new Error(
+          `globalRecipe: ${entry} references unknown responsive condition "${unknownCondition}" ` +
+            `for variant "${variantName}". Available conditions: ${formatNames(responsiveConditions)}`,
+        );
+      }
+    }
+  }
+
+  return responsiveConditions
+    .filter((condition) => [...responsiveValues.values()].some((values) => values[condition] !== undefined))
+    .map((condition) => ({
+      condition,
+      selection: Object.fromEntries(
+        Object.entries(selection).map(([variantName, variantValue]) => [
+          variantName,
+          responsiveValues.has(variantName) ? responsiveValues.get(variantName)![condition] : variantValue,
+        ]),
+      ) as CompoundVariantSelection<VariantGroups>,
+    }));
+}
+
+/** Nests a style inside the at-rules of a responsive condition, `@media` outermost */
+const wrapInCondition = (style: GlobalStyleRule, condition: ResponsiveCondition): GlobalStyleRule =>
+  (["@container", "@supports", "@media"] as const).reduce<GlobalStyleRule>(
+    (wrapped, atRule) =>
+      condition[atRule] ? ({ [atRule]: { [condition[atRule]]: wrapped } } as GlobalStyleRule) : wrapped,
+    style,
+  );
+
+/**
+ * Compiles the string templates of keyed selector generators into generator functions.
+ *
+ * @param generators - Generators as written in options
+ * @param option - Name of the option the generators come from, used in error messages
+ * @param label - Description of the recipe(s), used in error messages
+ */
+function compileSelectorGenerators(
+  generators: SelectorGeneratorsInput,
+  option: string,
+  label: string,
+): SelectorGenerators {
+  return Object.fromEntries(
+    Object.entries(generators).map(([key, generator]) => [
+      key,
+      typeof generator === "string" ? compileSelectorTemplate(generator, `${option}["${key}"] of ${label}`) : generator,
+    ]),
+  );
+}
+
+/**
+ * Checks that every scope is a valid selector that can match elements. A scope such as `"theme_dark"`
+ * is a type selector, so a class name passed without its leading `.` throws instead of emitting
+ * rules that never match.
+ */
+function checkScopeSelectors(scopes: ScopeSelectors, label: string): void {
+  for (const [scope, scopeSelector] of Object.entries(scopes)) {
+    if (!isParseableSelector(scopeSelector)) {
+      throw new Error(`globalRecipe: scopes["${scope}"] of ${label} is an invalid selector "${scopeSelector}"`);
+    }
+    const unknownElement = getTypeSelectors(scopeSelector).find((name) => !isElementName(name));
+    if (unknownElement !== undefined) {
+      throw new Error(
+        `globalRecipe: scopes["${scope}"] of ${label} selects <${unknownElement}> elements, which do not exist. ` +
+          `Class names need their leading ".", e.g. ".${unknownElement}". Got "${scopeSelector}"`,
+      );
+    }
+  }
+}
+
+/**
+ * Wraps a variant selector according to the `specificity` option.
+ */
+export const applySpecificity = (
+  variantSelector: string,
+  specificity: GlobalRecipeOutputOptions["specificity"] = "preserve",
+): string => (specificity === "flat" ? `:where(${variantSelector})` : variantSelector);
+
+/**
+ * Creates a rule list and an `applyStyle` function that splits a style into one rule per selector key.
+ *
+ * @param selectorGenerators - Generators receiving the selector input (e.g. the variant selector)
+ */
+export function createRuleCollector<TInput>(selectorGenerators: Record<string, (input: TInput) => string>) {
+  const rules: GlobalRecipeRule[] = [];
+
+  const applyStyle = (
+    input: TInput,
+    style: StyleRuleWithSelectors<string>,
+    source: GlobalRecipeEntry & { slot?: string; scope?: string },
+    generators = selectorGenerators,
+  ) => {
+    const { selectors, ...properties } = style;
+
+    if (Object.keys(properties).length > 0) {
+      rules.push({
+        selector: generators["&"](input),
+        style: properties,
+        source: { ...source, selectorKey: "&" },
+      });
+    }
+
+    if (selectors) {
+      for (const [selectorKey, selectorStyle] of Object.entries(selectors)) {
+        const generator = generators[selectorKey];
+        if (generator && selectorStyle) {
+          rules.push({
+            selector: generator(input),
+            style: selectorStyle,
+            source: { ...source, selectorKey },
+          });
+        }
+      }
+    }
+  };
+
+  return { rules, applyStyle };
+}
+
+/**
+ * Applies the `optimize` and `layer` options to collected rules.
+ *
+ * @param rules - Rules in source order
+ * @param options - The output options
+ * @param label - Description of the recipe(s), used in error messages
+ */
+export function finalizeRules(
+  rules: GlobalRecipeRule[],
+  { optimize = false, layer }: GlobalRecipeOutputOptions,
+  label: string,
+): GlobalRecipeRule[] {
+  const plannedRules = optimize ? optimizeRules(rules) : rules;
+  if (!layer) {
+    return plannedRules;
+  }
+
+  return plannedRules.map((rule) => {
+    if ("@layer" in rule.style) {
+      throw new Error(`globalRecipe: styles of ${label} cannot contain "@layer" when the layer option is set`);
+    }
+    return { ...rule, style: { "@layer": { [layer]: rule.style } } };
+  });
+}
+
 /**
  * Applies global CSS styles based on recipe variant classes.
  *
@@ -98,6 +896,11 @@ function buildVariantSelector<TRecipe extends RuntimeFn<VariantGroups>>(
  * - Type-safe variant names and values (inferred from recipe)
  * - Type-safe selector keys (constrained to defined generators)
  * - Flexible selector generation for any styling pattern
+ * - Slots and states composed into selectors for multi-part components
+ *
+ * Styles are applied in order: `base`, then `variants`, then `matrix`, then `compoundVariants`.
+ *
+ * Returns a handle with the resolved selectors, so follow-up rules can refer to them.
  *
  * @example
  * // Styling child SVG icons inside buttons
@@ -107,10 +910,12 @@ function buildVariantSelector<TRecipe extends RuntimeFn<VariantGroups>>(
  *     "&": (v) => `${v} svg`,
  *   },
  *   base: { pointerEvents: "none", flexShrink: 0 },
- *   compoundVariants: [
- *     { variants: { size: "sm" }, style: { width: "16px", height: "16px" } },
- *     { variants: { size: "md" }, style: { width: "20px", height: "20px" } },
- *   ],
+ *   variants: {
+ *     size: {
+ *       sm: { width: "16px", height: "16px" },
+ *       md: { width: "20px", height: "20px" },
+ *     },
+ *   },
  * });
  *
  * @example
@@ -144,37 +949,430 @@ function buildVariantSelector<TRecipe extends RuntimeFn<VariantGroups>>(
  *   ],
  * });
  */
-export function globalRecipe<TRecipe extends RuntimeFn<VariantGroups>, TGenerators extends SelectorGenerators>({
-  recipe,
-  selectorGenerators,
+export function globalRecipe<
+  TRecipe extends RecipeInput,
+  TGenerators extends SelectorGeneratorsInput,
+  TSlots extends SelectorGeneratorsInput = Record<never, never>,
+  TStates extends StateSelectors = Record<never, never>,
+  TExhaustive extends keyof ExtractVariantGroups<TRecipe> & string = never,
+  TMatrixGroups extends keyof ExtractVariantGroups<TRecipe> & string = never,
+  TScopes extends ScopeSelectors = Record<never, never>,
+  TConditions extends ConditionSelectors = Record<never, never>,
+  TCompoundSelection extends CompoundSelectionInput<TRecipe, TConditions> = CompoundSelectionInput<
+    TRecipe,
+    TConditions
+  >,
+>(
+  options: GlobalRecipeOptions<
+    TRecipe,
+    TGenerators,
+    TSlots,
+    TStates,
+    TExhaustive,
+    TMatrixGroups,
+    TScopes,
+    TConditions,
+    TCompoundSelection
+  > &
+    ExhaustiveOptions<TRecipe, TExhaustive, TMatrixGroups, TCompoundSelection>,
+): GlobalRecipeHandle<ExtractVariantGroups<TRecipe>, keyof TGenerators & string> {
+  const { rules, handle } = buildGlobalRecipe(options);
+  registerRules(Array.isArray(options.recipe) ? options.recipe : [options.recipe], rules, getCallSite(globalRecipe));
+  return handle;
+}
+
+/**
+ * Renders the rules `globalRecipe` would register to a plain CSS string, for places without a
+ * vanilla-extract build step (e.g. HTML emails or static snapshots). No file scope is needed.
+ *
+ * Uses vanilla-extract's own serializer, so the output matches what `globalStyle` emits:
+ * kebab-case (and vendor-prefixed) properties, `px` for unitless numbers, and at-rule blocks
+ * after the plain rules.
+ *
+ * @example
+ * const css = renderGlobalRecipeCss({
+ *   recipe: buttonStyle,
+ *   selectorGenerators: { "&": (v) => `${v} svg` },
+ *   variants: { size: { sm: { width: 16 } } },
+ * });
+ * // ".button_size_sm svg {\n  width: 16px;\n}"
+ */
+export function renderGlobalRecipeCss<
+  TRecipe extends RecipeInput,
+  TGenerators extends SelectorGeneratorsInput,
+  TSlots extends SelectorGeneratorsInput = Record<never, never>,
+  TStates extends StateSelectors = Record<never, never>,
+  TExhaustive extends keyof ExtractVariantGroups<TRecipe> & string = never,
+  TMatrixGroups extends keyof ExtractVariantGroups<TRecipe> & string = never,
+  TScopes extends ScopeSelectors = Record<never, never>,
+  TConditions extends ConditionSelectors = Record<never, never>,
+  TCompoundSelection extends CompoundSelectionInput<TRecipe, TConditions> = CompoundSelectionInput<
+    TRecipe,
+    TConditions
+  >,
+>(
+  options: GlobalRecipeOptions<
+    TRecipe,
+    TGenerators,
+    TSlots,
+    TStates,
+    TExhaustive,
+    TMatrixGroups,
+    TScopes,
+    TConditions,
+    TCompoundSelection
+  > &
+    ExhaustiveOptions<TRecipe, TExhaustive, TMatrixGroups, TCompoundSelection>,
+): string {
+  return transformCss({
+    localClassNames: [],
+    composedClassLists: [],
+    cssObjs: planGlobalRecipe(options).map(({ selector, style }) => ({ type: "global", selector, rule: style })),
+  }).join("\n");
+}
+
+/**
+ * Returns the rules `globalRecipe` would register, in order, without calling `globalStyle`.
+ *
+ * Useful for snapshot tests, code review diffs and tooling.
+ *
+ * @example
+ * const rules = planGlobalRecipe({
+ *   recipe: buttonStyle,
+ *   selectorGenerators: { "&": (v) => `${v} svg` },
+ *   variants: { size: { sm: { width: "16px" } } },
+ * });
+ * // [{
+ * //   selector: ".button_size_sm svg",
+ * //   style: { width: "16px" },
+ * //   source: { type: "variant", variant: "size", value: "sm", selectorKey: "&" },
+ * // }]
+ */
+export function planGlobalRecipe<
+  TRecipe extends RecipeInput,
+  TGenerators extends SelectorGeneratorsInput,
+  TSlots extends SelectorGeneratorsInput = Record<never, never>,
+  TStates extends StateSelectors = Record<never, never>,
+  TExhaustive extends keyof ExtractVariantGroups<TRecipe> & string = never,
+  TMatrixGroups extends keyof ExtractVariantGroups<TRecipe> & string = never,
+  TScopes extends ScopeSelectors = Record<never, never>,
+  TConditions extends ConditionSelectors = Record<never, never>,
+  TCompoundSelection extends CompoundSelectionInput<TRecipe, TConditions> = CompoundSelectionInput<
+    TRecipe,
+    TConditions
+  >,
+>(
+  options: GlobalRecipeOptions<
+    TRecipe,
+    TGenerators,
+    TSlots,
+    TStates,
+    TExhaustive,
+    TMatrixGroups,
+    TScopes,
+    TConditions,
+    TCompoundSelection
+  > &
+    ExhaustiveOptions<TRecipe, TExhaustive, TMatrixGroups, TCompoundSelection>,
+): GlobalRecipeRule[] {
+  return buildGlobalRecipe(options).rules;
+}
+
+/**
+ * Plans the rules of a `globalRecipe` call, and describes the resolved selectors in a handle.
+ */
+function buildGlobalRecipe<
+  TRecipe extends RecipeInput,
+  TGenerators extends SelectorGeneratorsInput,
+  TSlots extends SelectorGeneratorsInput = Record<never, never>,
+  TStates extends StateSelectors = Record<never, never>,
+  TExhaustive extends keyof ExtractVariantGroups<TRecipe> & string = never,
+  TMatrixGroups extends keyof ExtractVariantGroups<TRecipe> & string = never,
+  TScopes extends ScopeSelectors = Record<never, never>,
+  TConditions extends ConditionSelectors = Record<never, never>,
+  TCompoundSelection extends CompoundSelectionInput<TRecipe, TConditions> = CompoundSelectionInput<
+    TRecipe,
+    TConditions
+  >,
+>({
+  recipe: recipeOrRecipes,
+  selectorGenerators: selectorGeneratorsInput,
+  slots: slotsInput = {} as TSlots,
+  states = {} as TStates,
+  scopes = {} as TScopes,
+  conditions = {} as TConditions,
   base,
+  variants,
   compoundVariants,
-}: GlobalRecipeOptions<TRecipe, TGenerators>): void {
-  const applyStyle = (classSelector: string, style: StyleRuleWithSelectors<keyof TGenerators & string>) => {
-    const { selectors, ...properties } = style;
+  strict = config.strict,
+  selectorStrategy,
+  specificity,
+  exhaustive = [],
+  matrix,
+  ...outputOptions
+}: GlobalRecipeOptions<
+  TRecipe,
+  TGenerators,
+  TSlots,
+  TStates,
+  TExhaustive,
+  TMatrixGroups,
+  TScopes,
+  TConditions,
+  TCompoundSelection
+> &
+  ExhaustiveOptions<TRecipe, TExhaustive, TMatrixGroups, TCompoundSelection>): {
+  rules: GlobalRecipeRule[];
+  handle: GlobalRecipeHandle<ExtractVariantGroups<TRecipe>, keyof TGenerators & string>;
+} {
+  const recipes: readonly VariantSource[] = Array.isArray(recipeOrRecipes) ? recipeOrRecipes : [recipeOrRecipes];
+  const label =
+    recipes.length === 1
+      ? `recipe "${recipes[0].classNames.base}"`
+      : `recipes ${formatNames(recipes.map(({ classNames }) => classNames.base))}`;
 
-    if (Object.keys(properties).length > 0) {
-      globalStyle(selectorGenerators["&"](classSelector), properties);
+  const selectorGenerators = compileSelectorGenerators(selectorGeneratorsInput, "selectorGenerators", label);
+  const slots = compileSelectorGenerators(slotsInput, "slots", label);
+  const { rules, applyStyle: applyRuleStyle } = createRuleCollector(selectorGenerators);
+
+  // Each slot gets its own generators: "&" for the slot itself, "&:<state>" for each state
+  const slotGenerators = Object.entries(slots).map(([slot, generator]): [string, SelectorGenerators] => [
+    slot,
+    {
+      "&": generator,
+      ...Object.fromEntries(
+        Object.entries(states).map(([state, stateSelector]) => [
+          `&:${state}`,
+          (variantSelector: string) => generator(`${variantSelector}${stateSelector}`),
+        ]),
+      ),
+    },
+  ]);
+
+  // Each scope prepends its selector to every selector in the generated selector lists
+  checkScopeSelectors(scopes, label);
+  const scopeGenerators = Object.entries(scopes).map(
+    ([scope, scopeList]): [string, SelectorGenerators, [string, SelectorGenerators][]] => {
+      const scopeSelector = splitSelectorList(scopeList).length > 1 ? `:is(${scopeList})` : scopeList;
+      const prependScope = (generators: SelectorGenerators): SelectorGenerators =>
+        Object.fromEntries(
+          Object.entries(generators).map(([selectorKey, generator]) => [
+            selectorKey,
+            (variantSelector: string) =>
+              splitSelectorList(generator(variantSelector))
+                .map((complexSelector) => `${scopeSelector} ${complexSelector}`)
+                .join(", "),
+          ]),
+        );
+      return [
+        scope,
+        prependScope(selectorGenerators),
+        slotGenerators.map(([slot, generators]) => [slot, prependScope(generators)]),
+      ];
+    },
+  );
+
+  const applySlotStyle = (
+    classSelector: string,
+    { slots: slotStyles, ...style }: SlotStyle<string, string, string>,
+    source: GlobalRecipeEntry & { scope?: string },
+    generators: SelectorGenerators,
+    scopedSlotGenerators: [string, SelectorGenerators][],
+  ) => {
+    applyRuleStyle(classSelector, style, source, generators);
+
+    if (slotStyles) {
+      for (const [slot, slotGenerators] of scopedSlotGenerators) {
+        const slotStyle = slotStyles[slot];
+        if (slotStyle) {
+          applyRuleStyle(classSelector, slotStyle, { ...source, slot }, slotGenerators);
+        }
+      }
     }
+  };
 
-    if (selectors) {
-      for (const [selectorKey, selectorStyle] of Object.entries(selectors)) {
-        const generator = selectorGenerators[selectorKey];
-        if (generator && selectorStyle) {
-          globalStyle(generator(classSelector), selectorStyle);
+  const applyStyle = (
+    variantSelector: string,
+    { scopes: scopeStyles, ...style }: GlobalRecipeStyle<string, string, string, string>,
+    source: GlobalRecipeEntry,
+  ) => {
+    const classSelector = applySpecificity(variantSelector, specificity);
+    applySlotStyle(classSelector, style, source, selectorGenerators, slotGenerators);
+
+    if (scopeStyles) {
+      for (const [scope, generators, scopedSlotGenerators] of scopeGenerators) {
+        const scopeStyle = scopeStyles[scope];
+        if (scopeStyle) {
+          applySlotStyle(classSelector, scopeStyle, { ...source, scope }, generators, scopedSlotGenerators);
         }
       }
     }
   };
 
-  if (base) {
-    applyStyle(`.${recipe.classNames.base}`, base);
-  }
+  // With several recipes, a variant missing from one of them is always an error
+  const strictVariants = strict || recipes.length > 1;
+  // The variant selector of each compound variant entry, per recipe
+  const compoundVariantSelectors: string[][] = [];
+
+  for (const recipe of recipes) {
+    for (const variantName of exhaustive) {
+      const variantClassNames = recipe.classNames.variants[variantName];
+      if (!variantClassNames) {
+        throw new Error(
+          `globalRecipe: exhaustive of recipe "${recipe.classNames.base}" references unknown variant "${variantName}". ` +
+            `Available variants: ${formatNames(Object.keys(recipe.classNames.variants))}`,
+        );
+      }
+
+      const variantValues = Object.keys(variantClassNames);
+      const variantStyles: Record<string, unknown> = variants?.[variantName] ?? {};
+      const matrixGroups: readonly string[] = matrix?.groups ?? [];
+      const coveredValues = new Set(matrixGroups.includes(variantName) ? variantValues : []);
+      for (const variantValue of variantValues) {
+        if (variantStyles[variantValue]) coveredValues.add(variantValue);
+      }
+      // Compound variants selecting only this group style its values everywhere, unless they require conditions
+      for (const entry of compoundVariants ?? []) {
+        const selectedGroups = Object.entries(entry.variants).filter(([, variantValue]) => variantValue !== undefined);
+        if (selectedGroups.length !== 1 || selectedGroups[0][0] !== variantName) continue;
+        if (entry.conditions && Object.keys(entry.conditions).length > 0) continue;
+        for (const variantValue of getSelectedValues(selectedGroups[0][1], variantValues)) {
+          coveredValues.add(variantValue);
+        }
+      }
 
-  compoundVariants?.forEach(({ variants, style }) => {
-    const variantSelector = buildVariantSelector(recipe, variants);
-    if (variantSelector) {
-      applyStyle(variantSelector, style);
+      const missingValues = variantValues.filter((variantValue) => !coveredValues.has(variantValue));
+      if (missingValues.length > 0) {
+        throw new Error(
+          `globalRecipe: variant "${variantName}" of recipe "${recipe.classNames.base}" is not exhaustive. ` +
+            `Missing values: ${formatNames(missingValues)}. Style them in variants, compoundVariants or matrix.`,
+        );
+      }
     }
-  });
+
+    if (base) {
+      applyStyle(`.${recipe.classNames.base}`, base, { type: "base" });
+    }
+
+    if (variants) {
+      for (const [variantName, variantStyles] of Object.entries(variants)) {
+        if (!variantStyles) continue;
+
+        for (const [variantValue, style] of Object.entries(variantStyles)) {
+          if (!style) continue;
+
+          const variantSelector = buildVariantSelector(
+            recipe,
+            { [variantName]: variantValue },
+            strictVariants,
+            `variants.${variantName}.${variantValue}`,
+            selectorStrategy,
+          );
+          if (variantSelector) {
+            applyStyle(variantSelector, style, { type: "variant", variant: variantName, value: variantValue });
+          }
+        }
+      }
+    }
+
+    if (matrix) {
+      for (const combination of expandMatrix(recipes, matrix.groups)) {
+        const style = matrix.style(combination as MatrixVariants<ExtractVariantGroups<TRecipe>, TMatrixGroups>);
+        if (!style) continue;
+
+        const variantSelector = buildVariantSelector(
+          recipe,
+          combination as CompoundVariantSelection<VariantGroups>,
+          strictVariants,
+          `matrix ${JSON.stringify(combination)}`,
+          selectorStrategy,
+        );
+        if (variantSelector) {
+          applyStyle(variantSelector, style, { type: "matrix", variants: combination });
+        }
+      }
+    }
+
+    compoundVariants?.forEach(({ variants, conditions: conditionSelection = {}, style }, index) => {
+      const entry = `compoundVariants[${index}]`;
+      const conditionSelector = buildConditionSelector(
+        conditions,
+        conditionSelection,
+        strict,
+        `${entry} of recipe "${recipe.classNames.base}"`,
+      );
+      const expandedSelections = expandResponsiveSelection(
+        conditions,
+        variants,
+        strict,
+        `${entry} of recipe "${recipe.classNames.base}"`,
+      );
+      for (const { condition, selection } of expandedSelections) {
+        const variantSelector = buildVariantSelector(recipe, selection, strictVariants, entry, selectorStrategy);
+        if (variantSelector || conditionSelector) {
+          // Conditions without variants apply to the recipe's base class
+          const compoundVariantSelector = `${variantSelector || `.${recipe.classNames.base}`}${conditionSelector}`;
+          const selectors = (compoundVariantSelectors[index] ??= []);
+          if (!selectors.includes(compoundVariantSelector)) selectors.push(compoundVariantSelector);
+
+          const ruleCount = rules.length;
+          applyStyle(compoundVariantSelector, style, { type: "compoundVariant", index });
+          if (condition !== undefined) {
+            // Responsive values emit their rules inside the condition's at-rules
+            for (const rule of rules.slice(ruleCount)) {
+              rule.style = wrapInCondition(rule.style, conditions[condition] as ResponsiveCondition);
+              rule.source.condition = condition;
+            }
+          }
+        } else if (strict) {
+          throw new Error(
+            `globalRecipe: ${entry} of recipe "${recipe.classNames.base}" does not match any variant class`,
+          );
+        }
+      }
+    });
+  }
+
+  type SelectorKey = keyof TGenerators & string;
+  // Resolves the selectors of every generator key, joining the selectors of each recipe
+  const resolveSelectors = (variantSelectors: string[]) =>
+    Object.fromEntries(
+      Object.entries(selectorGenerators).map(([selectorKey, generator]) => [
+        selectorKey,
+        variantSelectors.map((variantSelector) => generator(applySpecificity(variantSelector, specificity))).join(", "),
+      ]),
+    ) as Record<SelectorKey, string>;
+
+  const handle: GlobalRecipeHandle<ExtractVariantGroups<TRecipe>, SelectorKey> = {
+    base: resolveSelectors(recipes.map((recipe) => `.${recipe.classNames.base}`)),
+    compoundVariants: (compoundVariants ?? []).map((_, index) =>
+      compoundVariantSelectors[index] ? resolveSelectors(compoundVariantSelectors[index]) : undefined,
+    ),
+    rules: finalizeRules(rules, outputOptions, label),
+    selectorFor: (variants, selectorKey = "&" as SelectorKey) => {
+      const generator = selectorGenerators[selectorKey];
+      if (!generator) {
+        throw new Error(
+          `globalRecipe: selectorFor of ${label} references unknown selector key "${selectorKey}". ` +
+            `Available keys: ${formatNames(Object.keys(selectorGenerators))}`,
+        );
+      }
+
+      return recipes
+        .map((recipe) => {
+          const variantSelector =
+            buildVariantSelector(
+              recipe,
+              variants as CompoundVariantSelection<VariantGroups>,
+              true,
+              "selectorFor",
+              selectorStrategy,
+            ) || `.${recipe.classNames.base}`;
+          return generator(applySpecificity(variantSelector, specificity));
+        })
+        .join(", ");
+    },
+  };
+
+  return { rules: handle.rules, handle };
 }
@@ -0,0 +1,77 @@
+import { describe, it } from "vitest";
+import { globalRecipes } from "./globalRecipes";
+import { createMockRecipe } from "./testing";
+
+const card = createMockRecipe({
+  base: "card",
+  variants: {
+    density: { compact: "density_compact", comfortable: "density_comfortable" },
+  },
+});
+
+const button = createMockRecipe({
+  base: "button",
+  variants: {
+    size: { sm: "size_sm", md: "size_md" },
+  },
+});
+
+describe("globalRecipes types", () => {
+  it("accepts valid recipe names, variant names and values", () => {
+    globalRecipes({
+      recipes: { card, button },
+      selectorGenerators: {
+        "&": ({ card, button }) => `${card} ${button}`,
+        "&:hover": ({ card, button }) => `${card} ${button}:hover`,
+      },
+      compoundVariants: [
+        {
+          variants: { card: { density: "compact" }, button: { size: ["sm", "md"] } },
+          style: { padding: 0, selectors: { "&:hover": { background: "gray" } } },
+        },
+      ],
+    });
+  });
+
+  it("rejects unknown recipe names in generators", () => {
+    globalRecipes({
+      recipes: { card, button },
+      selectorGenerators: {
+        // @ts-expect-error - "link" is not a recipe name
+        "&": ({ card, link }) => `${card} ${link}`,
+      },
+    });
+  });
+
+  it("rejects invalid recipe names and variant values", () => {
+    globalRecipes({
+      recipes: { card, button },
+      selectorGenerators: { "&": ({ card, button }) => `${card} ${button}` },
+      compoundVariants: [
+        {
+          variants: {
+            // @ts-expect-error - "link" is not a recipe name
+            link: {},
+          },
+          style: {},
+        },
+      ],
+    });
+
+    globalRecipes({
+      recipes: { card, button },
+      selectorGenerators: { "&": ({ card, button }) => `${card} ${button}` },
+      compoundVariants: [
+        {
+          variants: {
+            button: {
+              // @ts-expect-error - "compact" is not a valid size value
+              size: "compact",
+            },
+          },
+          style: {},
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { globalRecipes, planGlobalRecipes } from "./globalRecipes";
+import { clearRegisteredGlobalRecipes, createMockRecipe } from "./testing";
+
+// Mock globalStyle function to capture and test the passed arguments
+vi.mock("@vanilla-extract/css", () => ({
+  globalStyle: vi.fn(),
+}));
+
+import { globalStyle } from "@vanilla-extract/css";
+
+const mockGlobalStyle = vi.mocked(globalStyle);
+
+const createRecipes = () => ({
+  card: createMockRecipe({
+    base: "card_base",
+    variants: {
+      density: { compact: "card_density_compact", comfortable: "card_density_comfortable" },
+    },
+  }),
+  button: createMockRecipe({
+    base: "button_base",
+    variants: {
+      size: { sm: "button_size_sm", md: "button_size_md" },
+    },
+  }),
+});
+
+describe("globalRecipes", () => {
+  beforeEach(() => {
+    mockGlobalStyle.mockClear();
+    clearRegisteredGlobalRecipes();
+  });
+
+  it("passes each recipe's base class to the generators for base styles", () => {
+    globalRecipes({
+      recipes: createRecipes(),
+      selectorGenerators: {
+        "&": ({ card, button }) => `${card} ${button}`,
+      },
+      base: { flexShrink: 0 },
+    });
+
+    expect(mockGlobalStyle).toHaveBeenCalledWith(".card_base .button_base", { flexShrink: 0 });
+  });
+
+  it("selects variants per recipe in compound variants", () => {
+    globalRecipes({
+      recipes: createRecipes(),
+      selectorGenerators: {
+        "&": ({ card, button }) => `${card} ${button}`,
+        "&:hover": ({ card, button }) => `${card} ${button}:hover`,
+      },
+      compoundVariants: [
+        {
+          variants: { card: { density: "compact" }, button: { size: "md" } },
+          style: { padding: "4px 8px", selectors: { "&:hover": { background: "gray" } } },
+        },
+        {
+          variants: { card: { density: ["compact", "comfortable"] } },
+          style: { margin: 0 },
+        },
+      ],
+    });
+
+    expect(mockGlobalStyle.mock.calls).toEqual([
+      [".card_density_compact .button_size_md", { padding: "4px 8px" }],
+      [".card_density_compact .button_size_md:hover", { background: "gray" }],
+      [":is(.card_density_compact, .card_density_comfortable) .button_base", { margin: 0 }],
+    ]);
+  });
+
+  it("skips compound variants that match no variant class", () => {
+    globalRecipes({
+      recipes: createRecipes(),
+      selectorGenerators: {
+        "&": ({ card, button }) => `${card} ${button}`,
+      },
+      compoundVariants: [{ variants: {}, style: { margin: 0 } }],
+    });
+
+    expect(mockGlobalStyle).not.toHaveBeenCalled();
+  });
+
+  it("applies specificity to each recipe selector", () => {
+    const rules = planGlobalRecipes({
+      recipes: createRecipes(),
+      selectorGenerators: {
+        "&": ({ card, button }) => `${card} ${button}`,
+      },
+      compoundVariants: [{ variants: { button: { size: "sm" } }, style: { padding: 0 } }],
+      specificity: "flat",
+    });
+
+    expect(rules.map(({ selector }) => selector)).toEqual([":where(.card_base) :where(.button_size_sm)"]);
+  });
+
+  it("applies the selector strategy to each recipe", () => {
+    const rules = planGlobalRecipes({
+      recipes: createRecipes(),
+      selectorGenerators: {
+        "&": ({ card, button }) => `${card} ${button}`,
+      },
+      compoundVariants: [{ variants: { card: { density: "compact" }, button: { size: "sm" } }, style: { padding: 0 } }],
+      selectorStrategy: "data-attribute",
+    });
+
+    expect(rules.map(({ selector }) => selector)).toEqual([
+      '.card_base[data-density="compact"] .button_base[data-size="sm"]',
+    ]);
+  });
+
+  it("throws on unknown recipes and variants in strict mode", () => {
+    expect(() =>
+      globalRecipes({
+        recipes: createRecipes(),
+        selectorGenerators: {
+          "&": ({ card, button }) => `${card} ${button}`,
+        },
+        compoundVariants: [{ variants: { link: { size: "sm" } } as never, style: { padding: 0 } }],
+        strict: true,
+      }),
+    ).toThrowError(
+      'globalRecipe: compoundVariants[0] of recipes "card", "button" references unknown recipe "link". ' +
+        'Available recipes: "card", "button"',
+    );
+
+    expect(() =>
+      globalRecipes({
+        recipes: createRecipes(),
+        selectorGenerators: {
+          "&": ({ card, button }) => `${card} ${button}`,
+        },
+        compoundVariants: [{ variants: { button: { size: "xl" } } as never, style: { padding: 0 } }],
+        strict: true,
+      }),
+    ).toThrowError(/compoundVariants\[0\]\.button of recipe "button_base" references unknown value "xl"/);
+  });
+});
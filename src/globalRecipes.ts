@@ -0,0 +1,160 @@
+import {
+  applySpecificity,
+  buildVariantSelector,
+  config,
+  createRuleCollector,
+  finalizeRules,
+  formatNames,
+  registerRules,
+  type CompoundVariantSelection,
+  type ExtractVariantGroups,
+  type GlobalRecipeEntry,
+  type GlobalRecipeOutputOptions,
+  type GlobalRecipeRule,
+  type StyleRuleWithSelectors,
+  type VariantGroups,
+} from "./globalRecipe";
+import { getCallSite } from "./registry";
+import type { VariantSource } from "./variantSource";
+
+type RecipeMap = Record<string, VariantSource>;
+/** The variant selector of each recipe, keyed by recipe name */
+type RecipeSelectors<TRecipes extends RecipeMap> = { [RecipeName in keyof TRecipes]: string };
+type RecipeSelectorGenerators<TRecipes extends RecipeMap> = Record<
+  string,
+  (variantSelectors: RecipeSelectors<TRecipes>) => string
+>;
+type RecipesVariantSelection<TRecipes extends RecipeMap> = {
+  [RecipeName in keyof TRecipes]?: CompoundVariantSelection<ExtractVariantGroups<TRecipes[RecipeName]>>;
+};
+
+export interface GlobalRecipesOptions<
+  TRecipes extends RecipeMap,
+  TGenerators extends RecipeSelectorGenerators<TRecipes>,
+> extends GlobalRecipeOutputOptions {
+  /** The vanilla-extract recipe functions (or other variant sources), keyed by name */
+  recipes: TRecipes;
+  /**
+   * Keyed selector generators - an object mapping selector keys to generator functions.
+   * Each function receives the variant selector of every recipe, keyed by recipe name,
+   * and returns the full CSS selector.
+   * The "&" key is used for base styles (required).
+   *
+   * @example
+   * selectorGenerators: {
+   *   "&": ({ card, button }) => `${card} ${button}`,
+   *   "&:hover": ({ card, button }) => `${card} ${button}:hover`,
+   * }
+   */
+  selectorGenerators: TGenerators & {
+    "&": (variantSelectors: RecipeSelectors<TRecipes>) => string;
+  };
+  /** Base styles to apply to all elements matching the selectors (uses each recipe's base class) */
+  base?: StyleRuleWithSelectors<keyof TGenerators & string>;
+  /**
+   * Array of compound variant definitions with styles.
+   * Variants are selected per recipe; recipes without variants use their base class.
+   */
+  compoundVariants?: {
+    variants: RecipesVariantSelection<TRecipes>;
+    style: StyleRuleWithSelectors<keyof TGenerators & string>;
+  }[];
+}
+
+/**
+ * Applies global CSS styles based on the variant classes of several related recipes.
+ *
+ * Like `globalRecipe`, but selector generators receive a variant selector per recipe,
+ * so one recipe's elements can be styled by another recipe's variants.
+ *
+ * @example
+ * // Smaller button padding inside compact cards
+ * globalRecipes({
+ *   recipes: { card: cardStyle, button: buttonStyle },
+ *   selectorGenerators: {
+ *     "&": ({ card, button }) => `${card} ${button}`,
+ *   },
+ *   compoundVariants: [
+ *     {
+ *       variants: { card: { density: "compact" }, button: { size: "md" } },
+ *       style: { padding: "4px 8px" },
+ *     },
+ *   ],
+ * });
+ */
+export function globalRecipes<TRecipes extends RecipeMap, TGenerators extends RecipeSelectorGenerators<TRecipes>>(
+  options: GlobalRecipesOptions<TRecipes, TGenerators>,
+): void {
+  registerRules(Object.values(options.recipes), planGlobalRecipes(options), getCallSite(globalRecipes));
+}
+
+/**
+ * Returns the rules `globalRecipes` would register, in order, without calling `globalStyle`.
+ */
+export function planGlobalRecipes<TRecipes extends RecipeMap, TGenerators extends RecipeSelectorGenerators<TRecipes>>({
+  recipes,
+  selectorGenerators,
+  base,
+  compoundVariants,
+  strict = config.strict,
+  selectorStrategy,
+  specificity,
+  ...outputOptions
+}: GlobalRecipesOptions<TRecipes, TGenerators>): GlobalRecipeRule[] {
+  const recipeNames = Object.keys(recipes);
+  const label = `recipes ${formatNames(recipeNames)}`;
+  const { rules, applyStyle: applyRuleStyle } = createRuleCollector(selectorGenerators);
+
+  const applyStyle = (
+    getVariantSelector: (recipeName: string, recipe: VariantSource) => string,
+    style: StyleRuleWithSelectors<string>,
+    source: GlobalRecipeEntry,
+  ) => {
+    const variantSelectors: Record<string, string> = {};
+    for (const recipeName of recipeNames) {
+      variantSelectors[recipeName] = applySpecificity(getVariantSelector(recipeName, recipes[recipeName]), specificity);
+    }
+    applyRuleStyle(variantSelectors as RecipeSelectors<TRecipes>, style, source);
+  };
+
+  if (base) {
+    applyStyle((_, recipe) => `.${recipe.classNames.base}`, base, { type: "base" });
+  }
+
+  compoundVariants?.forEach(({ variants, style }, index) => {
+    const entry = `compoundVariants[${index}]`;
+
+    if (strict) {
+      for (const recipeName of Object.keys(variants)) {
+        if (!(recipeName in recipes)) {
+          throw new Error(
+            `globalRecipe: ${entry} of ${label} references unknown recipe "${recipeName}". ` +
+              `Available recipes: ${formatNames(recipeNames)}`,
+          );
+        }
+      }
+    }
+
+    const variantSelectors: Record<string, string> = {};
+    for (const recipeName of recipeNames) {
+      const selection = variants[recipeName] as CompoundVariantSelection<VariantGroups> | undefined;
+      variantSelectors[recipeName] = selection
+        ? buildVariantSelector(recipes[recipeName], selection, strict, `${entry}.${recipeName}`, selectorStrategy)
+        : "";
+    }
+
+    if (!Object.values(variantSelectors).some(Boolean)) {
+      if (strict) {
+        throw new Error(`globalRecipe: ${entry} of ${label} does not match any variant class`);
+      }
+      return;
+    }
+
+    applyStyle((recipeName, recipe) => variantSelectors[recipeName] || `.${recipe.classNames.base}`, style, {
+      type: "compoundVariant",
+      index,
+    });
+  });
+
+  return finalizeRules(rules, outputOptions, label);
+}
@@ -1,2 +1,17 @@
-export { globalRecipe } from "./globalRecipe";
-export type { GlobalRecipeOptions } from "./globalRecipe";
+export { globalRecipe, planGlobalRecipe, renderGlobalRecipeCss, configureGlobalRecipe } from "./globalRecipe";
+export type {
+  GlobalRecipeOptions,
+  GlobalRecipeRule,
+  GlobalRecipeRuleSource,
+  GlobalRecipeConfig,
+  GlobalRecipeHandle,
+  VariantSelectorStrategy,
+} from "./globalRecipe";
+export { getRegisteredGlobalRecipes } from "./registry";
+export type { GlobalRecipeRegistration, DuplicateRegistrationMode } from "./registry";
+export { globalRecipes, planGlobalRecipes } from "./globalRecipes";
+export type { GlobalRecipesOptions } from "./globalRecipes";
+export { descendant, child, sibling, rootState, has, pseudoElement } from "./selectors";
+export type { SelectorGenerator } from "./selectors";
+export { fromRecipe, fromStyleVariants, fromClassNames } from "./variantSource";
+export type { VariantSource } from "./variantSource";
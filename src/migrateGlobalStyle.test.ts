@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { migrateGlobalStyle } from "./migrateGlobalStyle";
+
+const header = `import { globalStyle } from "@vanilla-extract/css";
+import { button } from "./button.css";
+`;
+
+describe("migrateGlobalStyle", () => {
+  it("groups calls on one recipe into a globalRecipe call", () => {
+    const migration = migrateGlobalStyle(
+      `${header}
+globalStyle(\`.\${button.classNames.base} svg\`, { display: "block" });
+globalStyle(\`.\${button.classNames.variants.size.sm} svg\`, { width: "16px" });
+globalStyle(\`.\${button.classNames.variants.size.sm}:hover svg\`, { fill: "blue" });
+globalStyle(\`.\${button.classNames.variants.size.sm}.\${button.classNames.variants.tone.danger} svg\`, { fill: "red" });
+`,
+    );
+
+    expect(migration.migratedCalls).toBe(4);
+    expect(migration.generatedCalls).toBe(1);
+    expect(migration.skipped).toEqual([]);
+    expect(migration.output).toContain(`import { globalRecipe } from "global-recipes";`);
+    expect(migration.output).not.toContain("globalStyle");
+    expect(migration.output).toContain(`"&": "& svg"`);
+    expect(migration.output).toContain(`base: { display: "block" }`);
+    expect(migration.output).toContain(`variants: { size: "sm", tone: "danger" }`);
+    expect(migration.output).toContain(`"&:hover svg": { fill: "blue" }`);
+  });
+
+  it("keeps calls it cannot migrate and reports why", () => {
+    const source = `${header}
+globalStyle(\`\${button.classNames.base} svg\`, { display: "block" });
+globalStyle(\`.\${button.classNames.base} \${other}\`, { display: "block" });
+`;
+    const migration = migrateGlobalStyle(source);
+
+    expect(migration.output).toBe(source);
+    expect(migration.skipped).toEqual([
+      { line: 4, column: 1, reason: 'an interpolated class name is not preceded by "."' },
+      { line: 5, column: 1, reason: "the selector interpolates other values" },
+    ]);
+  });
+
+  it("does not move rules past conflicting ones", () => {
+    const source = `${header}
+globalStyle(\`.\${button.classNames.variants.size.sm} svg\`, { width: "16px" });
+globalStyle(\`.other svg\`, { width: "24px" });
+globalStyle(\`.\${button.classNames.variants.size.md} svg\`, { width: "20px" });
+`;
+    const migration = migrateGlobalStyle(source);
+
+    expect(migration.output).toBe(source);
+    expect(migration.skipped.map(({ reason }) => reason)).toEqual([
+      "moving it would reorder rules that may set the same properties",
+      "moving it would reorder rules that may set the same properties",
+    ]);
+  });
+
+  it("leaves files without a globalStyle import untouched", () => {
+    const source = `import { style } from "@vanilla-extract/css";\n\nexport const root = style({});\n`;
+
+    expect(migrateGlobalStyle(source)).toEqual({ output: source, migratedCalls: 0, generatedCalls: 0, skipped: [] });
+  });
+});
@@ -0,0 +1,526 @@
+import ts from "typescript";
+import { stylesConflict, type StyleObject } from "./optimizeRules";
+
+/** A `globalStyle` call left alone by `migrateGlobalStyle` */
+export interface SkippedGlobalStyle {
+  /** 1-based line of the call */
+  line: number;
+  /** 1-based column of the call */
+  column: number;
+  reason: string;
+}
+
+/** The result of migrating one file */
+export interface GlobalStyleMigration {
+  /** The rewritten source text, unchanged if nothing was migrated */
+  output: string;
+  /** Number of `globalStyle` calls rewritten */
+  migratedCalls: number;
+  /** Number of `globalRecipe` calls generated */
+  generatedCalls: number;
+  /** Calls interpolating recipe class names that were left alone */
+  skipped: SkippedGlobalStyle[];
+}
+
+/** A top-level `globalStyle` call interpolating the class names of one recipe */
+interface Candidate {
+  statement: ts.Statement;
+  recipe: string;
+  /** Variant values keyed by variant group, or `undefined` for the base class */
+  variants: Record<string, string> | undefined;
+  /** Cooked template text before and after the variant selector */
+  prefix: string;
+  suffix: string;
+  /** Raw template text before and after the variant selector */
+  rawPrefix: string;
+  rawSuffix: string;
+  style: ts.Expression;
+}
+
+/** A top-level statement that registers CSS, in source order */
+interface OrderedItem {
+  candidate?: Candidate;
+  /** Statically known property names of the style, or `undefined` if it may set anything */
+  style: StyleObject | undefined;
+}
+
+const identifierPattern = /^[A-Za-z_$][\w$]*$/;
+/** Functions that register CSS, whose relative order migrated rules must keep, keyed by module */
+const registeringFunctions: Record<string, string[]> = {
+  "@vanilla-extract/css": [
+    "style",
+    "styleVariants",
+    "globalStyle",
+    "createTheme",
+    "createGlobalTheme",
+    "fontFace",
+    "globalFontFace",
+    "keyframes",
+    "globalKeyframes",
+    "layer",
+    "globalLayer",
+  ],
+  "@vanilla-extract/recipes": ["recipe"],
+  "@vanilla-extract/sprinkles": ["createSprinkles"],
+  "global-recipes": ["globalRecipe", "globalRecipes"],
+};
+
+const getPropertyName = (name: ts.PropertyName): string | undefined =>
+  ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) ? name.text : undefined;
+
+const getAccessName = (node: ts.Expression): [ts.Expression, string] | undefined => {
+  if (ts.isPropertyAccessExpression(node)) return [node.expression, node.name.text];
+  if (ts.isElementAccessExpression(node) && ts.isStringLiteralLike(node.argumentExpression)) {
+    return [node.expression, node.argumentExpression.text];
+  }
+  return undefined;
+};
+
+/**
+ * Reads `<recipe>.classNames.base` or `<recipe>.classNames.variants.<group>.<value>`.
+ */
+function readClassName(node: ts.Expression): { recipe: string; variant?: [string, string] } | undefined {
+  const path: string[] = [];
+  let current: ts.Expression = node;
+  for (let access = getAccessName(current); access; access = getAccessName(current)) {
+    path.unshift(access[1]);
+    current = access[0];
+  }
+  if (!ts.isIdentifier(current) || path[0] !== "classNames") return undefined;
+
+  if (path.length === 2 && path[1] === "base") return { recipe: current.text };
+  if (path.length === 4 && path[1] === "variants") return { recipe: current.text, variant: [path[2], path[3]] };
+  return undefined;
+}
+
+/**
+ * Returns the names of the properties a style literal sets, keeping the nesting of at-rules,
+ * or `undefined` if they cannot be known statically.
+ */
+function readStyleProperties(node: ts.Expression): StyleObject | undefined {
+  if (!ts.isObjectLiteralExpression(node)) return undefined;
+
+  const properties: StyleObject = {};
+  for (const property of node.properties) {
+    if (ts.isShorthandPropertyAssignment(property)) {
+      properties[property.name.text] = true;
+      continue;
+    }
+    if (!ts.isPropertyAssignment(property)) return undefined;
+
+    const name = getPropertyName(property.name);
+    if (name === undefined) return undefined;
+
+    if (ts.isObjectLiteralExpression(property.initializer)) {
+      const nested = readStyleProperties(property.initializer);
+      if (!nested) return undefined;
+      properties[name] = nested;
+    } else {
+      properties[name] = true;
+    }
+  }
+  return properties;
+}
+
+/**
+ * Analyzes a `globalStyle` call. Returns a candidate, a reason it can't be migrated,
+ * or `undefined` if it doesn't interpolate recipe class names at all.
+ */
+function analyzeCall(call: ts.CallExpression, sourceFile: ts.SourceFile): Candidate | string | undefined {
+  const [selector, style] = call.arguments;
+  if (!selector || !ts.isTemplateExpression(selector)) return undefined;
+
+  const references = selector.templateSpans.map((span) => readClassName(span.expression));
+  if (references.every((reference) => !reference)) {
+    return selector.getText(sourceFile).includes("classNames") ? "the selector interpolates other values" : undefined;
+  }
+
+  if (!ts.isExpressionStatement(call.parent) || !ts.isSourceFile(call.parent.parent)) {
+    return "the call is not a top-level statement";
+  }
+  if (call.arguments.length !== 2) return "the call does not have exactly two arguments";
+  if (references.some((reference) => !reference)) return "the selector interpolates other values";
+
+  const recipes = new Set(references.map((reference) => reference!.recipe));
+  if (recipes.size > 1) return "the selector interpolates class names of several recipes";
+
+  if (!selector.head.text.endsWith(".")) return 'an interpolated class name is not preceded by "."';
+  const lastSpan = selector.templateSpans[selector.templateSpans.length - 1];
+  if (selector.templateSpans.slice(0, -1).some((span) => span.literal.text !== ".")) {
+    return "the interpolated class names are not combined into one compound selector";
+  }
+
+  let variants: Record<string, string> | undefined;
+  if (references.some((reference) => !reference!.variant)) {
+    if (references.length > 1) return "the selector combines the base class with other classes";
+  } else {
+    variants = {};
+    for (const reference of references) {
+      const [group, value] = reference!.variant!;
+      if (group in variants) return `the selector selects several values of variant "${group}"`;
+      variants[group] = value;
+    }
+  }
+
+  return {
+    statement: call.parent,
+    recipe: [...recipes][0],
+    variants,
+    prefix: selector.head.text.slice(0, -1),
+    suffix: lastSpan.literal.text,
+    rawPrefix: (selector.head.rawText ?? selector.head.text).slice(0, -1),
+    rawSuffix: lastSpan.literal.rawText ?? lastSpan.literal.text,
+    style,
+  };
+}
+
+const formatKey = (key: string): string => (identifierPattern.test(key) ? key : JSON.stringify(key));
+
+const formatVariants = (variants: Record<string, string>): string =>
+  `{ ${Object.entries(variants)
+    .map(
+      ([group, value]) =>
+        `${formatKey(group)}: ${value === "true" || value === "false" ? value : JSON.stringify(value)}`,
+    )
+    .join(", ")} }`;
+
+const getTemplate = ({ prefix, suffix }: Candidate): string => `${prefix}&${suffix}`;
+
+/** Groups the candidates of one recipe into entries, keyed by their variant selection */
+function groupEntries(candidates: Candidate[]): Map<string, Candidate[]> {
+  const entries = new Map<string, Candidate[]>();
+  for (const candidate of candidates) {
+    const key = candidate.variants ? formatVariants(candidate.variants) : "base";
+    entries.set(key, [...(entries.get(key) ?? []), candidate]);
+  }
+  // `globalRecipe` applies base styles first
+  return new Map([...entries].sort(([a], [b]) => Number(b === "base") - Number(a === "base")));
+}
+
+/** Picks the template used for the "&" generator: a bare class if used, otherwise the most common one */
+function getMainTemplate(candidates: Candidate[]): string {
+  const counts = new Map<string, number>();
+  for (const candidate of candidates) {
+    const template = getTemplate(candidate);
+    counts.set(template, (counts.get(template) ?? 0) + 1);
+  }
+  if (counts.has("&")) return "&";
+  return [...counts].reduce((best, current) => (current[1] > best[1] ? current : best))[0];
+}
+
+/** Returns the candidates of a recipe in the order `globalRecipe` would register their rules */
+function orderCandidates(candidates: Candidate[]): Candidate[] {
+  const mainTemplate = getMainTemplate(candidates);
+  return [...groupEntries(candidates).values()].flatMap((entry) => [
+    ...entry.filter((candidate) => getTemplate(candidate) === mainTemplate),
+    ...entry.filter((candidate) => getTemplate(candidate) !== mainTemplate),
+  ]);
+}
+
+const indent = (text: string, level: number): string => text.replace(/\n/g, `\n${"  ".repeat(level)}`);
+
+function formatGenerator(candidate: Candidate): string {
+  if (!candidate.prefix.includes("&") && !candidate.suffix.includes("&")) {
+    return JSON.stringify(getTemplate(candidate));
+  }
+  return `(v) => \`${candidate.rawPrefix}\${v}${candidate.rawSuffix}\``;
+}
+
+/** Formats the style of one entry, with the calls of other templates in `selectors` */
+function formatStyle(entry: Candidate[], mainTemplate: string, sourceFile: ts.SourceFile, level: number): string {
+  const main = entry.find((candidate) => getTemplate(candidate) === mainTemplate);
+  const others = entry.filter((candidate) => candidate !== main);
+  if (main && others.length === 0) return main.style.getText(sourceFile);
+
+  const lines: string[] = [];
+  if (main) {
+    if (ts.isObjectLiteralExpression(main.style)) {
+      lines.push(...main.style.properties.map((property) => `${property.getText(sourceFile)},`));
+    } else {
+      lines.push(`...${main.style.getText(sourceFile)},`);
+    }
+  }
+  lines.push(
+    "selectors: {",
+    ...others.map(
+      (candidate) => `  ${JSON.stringify(getTemplate(candidate))}: ${indent(candidate.style.getText(sourceFile), 1)},`,
+    ),
+    "},",
+  );
+  return indent(`{\n${lines.map((line) => `  ${line}`).join("\n")}\n}`, level);
+}
+
+function formatGlobalRecipe(recipe: string, candidates: Candidate[], sourceFile: ts.SourceFile): string {
+  const mainTemplate = getMainTemplate(candidates);
+  const generators = new Map<string, string>();
+  for (const candidate of candidates) {
+    const template = getTemplate(candidate);
+    if (!generators.has(template)) generators.set(template, formatGenerator(candidate));
+  }
+
+  const lines = [`globalRecipe({`, `  recipe: ${recipe},`, `  selectorGenerators: {`];
+  lines.push(`    "&": ${generators.get(mainTemplate)},`);
+  for (const [template, generator] of generators) {
+    if (template !== mainTemplate) lines.push(`    ${JSON.stringify(template)}: ${generator},`);
+  }
+  lines.push(`  },`);
+
+  const entries = groupEntries(candidates);
+  const base = entries.get("base");
+  if (base) {
+    lines.push(`  base: ${formatStyle(base, mainTemplate, sourceFile, 1)},`);
+  }
+
+  const compoundVariants = [...entries].filter(([key]) => key !== "base");
+  if (compoundVariants.length > 0) {
+    lines.push(`  compoundVariants: [`);
+    for (const [variants, entry] of compoundVariants) {
+      lines.push(
+        `    {`,
+        `      variants: ${variants},`,
+        `      style: ${formatStyle(entry, mainTemplate, sourceFile, 3)},`,
+        `    },`,
+      );
+    }
+    lines.push(`  ],`);
+  }
+  lines.push(`});`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Rewrites `globalStyle` calls interpolating recipe class names into `globalRecipe` calls.
+ *
+ * Calls are grouped by recipe, and by the selector template around the interpolated classes.
+ * Each `globalRecipe` call replaces the last call of its group, so the styles can still refer to
+ * everything declared before them. A group is left alone if moving its rules would reorder them
+ * against other rules setting the same properties, or against other vanilla-extract calls.
+ *
+ * @param sourceText - Contents of a `.css.ts` file
+ * @param fileName - Name of the file, used for parsing
+ *
+ * @example
+ * migrateGlobalStyle(`
+ *   globalStyle(\`.\${button.classNames.variants.size.sm} svg\`, { width: "16px" });
+ *   globalStyle(\`.\${button.classNames.variants.size.md} svg\`, { width: "20px" });
+ * `).output;
+ * // globalRecipe({
+ * //   recipe: button,
+ * //   selectorGenerators: { "&": "& svg" },
+ * //   compoundVariants: [
+ * //     { variants: { size: "sm" }, style: { width: "16px" } },
+ * //     { variants: { size: "md" }, style: { width: "20px" } },
+ * //   ],
+ * // });
+ */
+export function migrateGlobalStyle(sourceText: string, fileName = "file.css.ts"): GlobalStyleMigration {
+  const sourceFile = ts.createSourceFile(fileName, sourceText, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const unchanged: GlobalStyleMigration = { output: sourceText, migratedCalls: 0, generatedCalls: 0, skipped: [] };
+
+  // Local names of the imported functions that register CSS, and of `globalStyle` in particular
+  const registeringImports = new Set<string>();
+  let globalStyleImport: ts.ImportSpecifier | undefined;
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+
+    const moduleName = statement.moduleSpecifier.text;
+    const bindings = statement.importClause?.namedBindings;
+    if (!(moduleName in registeringFunctions) || !bindings || !ts.isNamedImports(bindings)) continue;
+    for (const element of bindings.elements) {
+      const importedName = (element.propertyName ?? element.name).text;
+      if (!registeringFunctions[moduleName].includes(importedName)) continue;
+
+      registeringImports.add(element.name.text);
+      if (moduleName === "@vanilla-extract/css" && importedName === "globalStyle") {
+        globalStyleImport = element;
+      }
+    }
+  }
+  if (!globalStyleImport) return unchanged;
+  const globalStyleName = globalStyleImport.name.text;
+
+  const isCallTo = (node: ts.Node, names: Set<string> | string): node is ts.CallExpression =>
+    ts.isCallExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    (typeof names === "string" ? node.expression.text === names : names.has(node.expression.text));
+
+  // Collect every `globalStyle` call, and the top-level statements that register CSS in order
+  const skipped: SkippedGlobalStyle[] = [];
+  const items: OrderedItem[] = [];
+  const skip = (node: ts.Node, reason: string) => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    skipped.push({ line: line + 1, column: character + 1, reason });
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement)) continue;
+
+    const calls: ts.CallExpression[] = [];
+    let registersCss = false;
+    const visit = (node: ts.Node) => {
+      if (isCallTo(node, globalStyleName)) calls.push(node);
+      else if (isCallTo(node, registeringImports)) registersCss = true;
+      ts.forEachChild(node, visit);
+    };
+    visit(statement);
+
+    let candidate: Candidate | undefined;
+    for (const call of calls) {
+      const result = analyzeCall(call, sourceFile);
+      if (typeof result === "string") skip(call, result);
+      else if (result) candidate = result;
+    }
+
+    // A candidate is always the only call of its statement
+    if (candidate) {
+      items.push({ candidate, style: readStyleProperties(candidate.style) });
+    } else if (calls.length === 1 && calls[0] === (statement as ts.ExpressionStatement).expression && !registersCss) {
+      const style = calls[0].arguments[1];
+      items.push({ style: style ? readStyleProperties(style) : undefined });
+    } else if (calls.length > 0 || registersCss) {
+      items.push({ style: undefined });
+    }
+  }
+
+  // Rules of one entry and template can't be merged; later duplicates are left alone
+  const seen = new Set<string>();
+  for (const item of items) {
+    if (!item.candidate) continue;
+    const { recipe, variants } = item.candidate;
+    const key = JSON.stringify([recipe, variants ?? null, getTemplate(item.candidate)]);
+    if (seen.has(key)) {
+      skip(item.candidate.statement, "an earlier call already styles the same selector");
+      item.candidate = undefined;
+    } else {
+      seen.add(key);
+    }
+  }
+
+  // Drop groups until no rules setting the same properties are reordered
+  const groups = new Map<string, OrderedItem[]>();
+  for (const item of items) {
+    if (item.candidate) groups.set(item.candidate.recipe, [...(groups.get(item.candidate.recipe) ?? []), item]);
+  }
+  const rejected = new Set<string>();
+  for (let changed = true; changed; ) {
+    changed = false;
+
+    const order: OrderedItem[] = [];
+    for (const item of items) {
+      const recipe = item.candidate?.recipe;
+      if (recipe === undefined || rejected.has(recipe)) {
+        order.push(item);
+      } else {
+        const group = groups.get(recipe)!;
+        if (group[group.length - 1] === item) {
+          const ordered = orderCandidates(group.map(({ candidate }) => candidate!));
+          order.push(...ordered.map((candidate) => group.find((groupItem) => groupItem.candidate === candidate)!));
+        }
+      }
+    }
+
+    for (let i = 0; i < items.length && !changed; i++) {
+      for (let j = i + 1; j < items.length && !changed; j++) {
+        const [a, b] = [items[i], items[j]];
+        if (order.indexOf(a) < order.indexOf(b)) continue;
+        if (a.style && b.style && !stylesConflict(a.style, b.style)) continue;
+
+        for (const { candidate } of [a, b]) {
+          if (candidate && !rejected.has(candidate.recipe)) {
+            rejected.add(candidate.recipe);
+            changed = true;
+          }
+        }
+      }
+    }
+  }
+
+  for (const recipe of rejected) {
+    for (const { candidate } of groups.get(recipe)!) {
+      skip(candidate!.statement, "moving it would reorder rules that may set the same properties");
+    }
+    groups.delete(recipe);
+  }
+  if (groups.size === 0) {
+    return { ...unchanged, skipped: skipped.sort((a, b) => a.line - b.line || a.column - b.column) };
+  }
+
+  // Replace the last call of each group, and remove the others
+  const edits: { start: number; end: number; text: string }[] = [];
+  const lineEnd = (position: number) => {
+    const match = /^[ \t]*\r?\n/.exec(sourceText.slice(position));
+    return position + (match ? match[0].length : 0);
+  };
+  let migratedCalls = 0;
+  for (const [recipe, group] of groups) {
+    const candidates = group.map(({ candidate }) => candidate!);
+    migratedCalls += candidates.length;
+    candidates.forEach((candidate, index) => {
+      const start = candidate.statement.getStart(sourceFile);
+      edits.push(
+        index === candidates.length - 1
+          ? { start, end: candidate.statement.getEnd(), text: formatGlobalRecipe(recipe, candidates, sourceFile) }
+          : { start, end: lineEnd(candidate.statement.getEnd()), text: "" },
+      );
+    });
+  }
+
+  // Import `globalRecipe`, and drop `globalStyle` if it is no longer used
+  const migratedStatements = new Set([...groups.values()].flat().map(({ candidate }) => candidate!.statement));
+  let globalStyleUsed = false;
+  const findUses = (node: ts.Node) => {
+    if (migratedStatements.has(node as ts.Statement) || node === globalStyleImport) return;
+    if (ts.isIdentifier(node) && node.text === globalStyleName) globalStyleUsed = true;
+    ts.forEachChild(node, findUses);
+  };
+  findUses(sourceFile);
+
+  const importsGlobalRecipe = sourceFile.statements.some(
+    (statement) =>
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier) &&
+      statement.moduleSpecifier.text === "global-recipes" &&
+      statement.importClause?.namedBindings &&
+      ts.isNamedImports(statement.importClause.namedBindings) &&
+      statement.importClause.namedBindings.elements.some(({ name }) => name.text === "globalRecipe"),
+  );
+  let importText = importsGlobalRecipe ? "" : 'import { globalRecipe } from "global-recipes";';
+
+  const importDeclaration = globalStyleImport.parent.parent.parent;
+  if (!globalStyleUsed) {
+    const { elements } = globalStyleImport.parent;
+    if (elements.length === 1 && !importDeclaration.importClause?.name) {
+      // Replace the import declaration with the `globalRecipe` import
+      const end = importDeclaration.getEnd();
+      edits.push({
+        start: importDeclaration.getStart(sourceFile),
+        end: importText ? end : lineEnd(end),
+        text: importText,
+      });
+      importText = "";
+    } else {
+      const index = elements.indexOf(globalStyleImport);
+      const start = index === 0 ? globalStyleImport.getStart(sourceFile) : elements[index - 1].getEnd();
+      const end = index === 0 && elements.length > 1 ? elements[1].getStart(sourceFile) : globalStyleImport.getEnd();
+      edits.push({ start, end, text: "" });
+    }
+  }
+
+  if (importText) {
+    const lastImport = sourceFile.statements.filter(ts.isImportDeclaration).pop()!;
+    edits.push({ start: lastImport.getEnd(), end: lastImport.getEnd(), text: `\n${importText}` });
+  }
+
+  let output = sourceText;
+  for (const { start, end, text } of edits.sort((a, b) => b.start - a.start)) {
+    output = output.slice(0, start) + text + output.slice(end);
+  }
+
+  return {
+    output,
+    migratedCalls,
+    generatedCalls: groups.size,
+    skipped: skipped.sort((a, b) => a.line - b.line || a.column - b.column),
+  };
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { optimizeRules, stylesConflict } from "./optimizeRules";
+import type { GlobalRecipeRule } from "./globalRecipe";
+
+const rule = (selector: string, style: GlobalRecipeRule["style"], index: number): GlobalRecipeRule => ({
+  selector,
+  style,
+  source: { type: "compoundVariant", index, selectorKey: "&" },
+});
+
+describe("optimizeRules", () => {
+  it("combines rules with identical styles into one comma-joined selector", () => {
+    const rules = [
+      rule(".size_sm svg", { width: "16px", height: "16px" }, 0),
+      rule(".size_md svg", { width: "16px", height: "16px" }, 1),
+      rule(".size_lg svg", { width: "24px", height: "24px" }, 2),
+    ];
+
+    expect(optimizeRules(rules)).toEqual([
+      {
+        selector: ".size_sm svg, .size_md svg",
+        style: { width: "16px", height: "16px" },
+        source: rules[0].source,
+        sources: [rules[0].source, rules[1].source],
+      },
+      rules[2],
+    ]);
+  });
+
+  it("merges rules targeting the same selector in source order", () => {
+    const rules = [
+      rule(".size_sm svg", { margin: 0, marginTop: "4px" }, 0),
+      rule(".tone_danger svg", { fill: "red" }, 1),
+      rule(".size_sm svg", { margin: "2px", width: "16px" }, 2),
+    ];
+
+    const optimized = optimizeRules(rules);
+
+    expect(optimized.map(({ selector, style }) => [selector, style])).toEqual([
+      [".size_sm svg", { marginTop: "4px", margin: "2px", width: "16px" }],
+      [".tone_danger svg", { fill: "red" }],
+    ]);
+    expect(optimized[0].sources).toEqual([rules[0].source, rules[2].source]);
+  });
+
+  it("deep-merges at-rule blocks", () => {
+    const rules = [
+      rule(".size_sm svg", { width: "16px", "@media": { "(min-width: 768px)": { width: "20px" } } }, 0),
+      rule(".size_sm svg", { "@media": { "(min-width: 768px)": { height: "20px" } } }, 1),
+    ];
+
+    expect(optimizeRules(rules).map(({ style }) => style)).toEqual([
+      { width: "16px", "@media": { "(min-width: 768px)": { width: "20px", height: "20px" } } },
+    ]);
+  });
+
+  it("does not move a rule past a rule that sets the same property", () => {
+    const rules = [
+      rule(".size_sm svg", { width: "16px" }, 0),
+      rule(".tone_danger svg", { width: "20px" }, 1),
+      rule(".size_sm svg", { width: "18px" }, 2),
+      rule(".size_md svg", { width: "16px" }, 3),
+    ];
+
+    expect(optimizeRules(rules).map(({ selector }) => selector)).toEqual([
+      ".size_sm svg",
+      ".tone_danger svg",
+      ".size_sm svg",
+      ".size_md svg",
+    ]);
+  });
+
+  it("treats shorthands and their longhands as the same property", () => {
+    const rules = [
+      rule(".size_sm svg", { margin: 0 }, 0),
+      rule(".tone_danger svg", { marginTop: "4px" }, 1),
+      rule(".size_sm svg", { margin: "2px" }, 2),
+      rule(".size_md svg", { inset: 0 }, 3),
+      rule(".tone_danger svg", { top: "4px" }, 4),
+      rule(".size_lg svg", { inset: 0 }, 5),
+    ];
+
+    expect(optimizeRules(rules)).toHaveLength(6);
+  });
+
+  it("treats shorthands whose longhands are named differently as the same property", () => {
+    const rules = [
+      rule(".size_sm svg", { columns: 2 }, 0),
+      rule(".tone_danger svg", { columnCount: 3 }, 1),
+      rule(".size_md svg", { columns: 2 }, 2),
+      rule(".size_sm label", { whiteSpace: "nowrap" }, 3),
+      rule(".tone_danger label", { textWrapMode: "wrap" }, 4),
+      rule(".size_md label", { whiteSpace: "nowrap" }, 5),
+    ];
+
+    expect(optimizeRules(rules)).toHaveLength(6);
+    expect(stylesConflict({ columns: 2 }, { columnCount: 3 })).toBe(true);
+    expect(stylesConflict({ whiteSpace: "nowrap" }, { textWrapMode: "wrap" })).toBe(true);
+  });
+
+  it("treats logical properties as their physical counterparts", () => {
+    const rules = [
+      rule(".size_sm svg", { width: "10px" }, 0),
+      rule(".tone_danger svg", { inlineSize: "20px" }, 1),
+      rule(".size_sm svg", { width: "30px" }, 2),
+    ];
+
+    expect(optimizeRules(rules)).toHaveLength(3);
+    expect(stylesConflict({ width: "10px" }, { inlineSize: "20px" })).toBe(true);
+    expect(stylesConflict({ height: "10px" }, { inlineSize: "20px" })).toBe(true);
+    expect(stylesConflict({ minWidth: 0 }, { minInlineSize: 0 })).toBe(true);
+    expect(stylesConflict({ overflowX: "auto" }, { overflowInline: "auto" })).toBe(true);
+  });
+
+  it("does not combine selectors that some browsers reject", () => {
+    const rules = [
+      rule(".size_sm input::-webkit-slider-thumb", { width: "16px" }, 0),
+      rule(".size_sm input::-moz-range-thumb", { width: "16px" }, 1),
+      rule(".size_sm:has(svg)", { width: "16px" }, 2),
+      rule(".size_sm label", { width: "16px" }, 3),
+      rule(".size_md label", { width: "16px" }, 4),
+    ];
+
+    expect(optimizeRules(rules).map(({ selector }) => selector)).toEqual([
+      ".size_sm input::-webkit-slider-thumb",
+      ".size_sm input::-moz-range-thumb",
+      ".size_sm:has(svg)",
+      ".size_sm label, .size_md label",
+    ]);
+  });
+
+  it("does not mutate the given rules", () => {
+    const rules = [rule(".size_sm svg", { width: "16px" }, 0), rule(".size_sm svg", { height: "16px" }, 1)];
+    const snapshot = JSON.parse(JSON.stringify(rules));
+
+    optimizeRules(rules);
+
+    expect(rules).toEqual(snapshot);
+  });
+});
@@ -0,0 +1,161 @@
+import type { GlobalRecipeRule } from "./globalRecipe";
+
+export type StyleObject = Record<string, unknown>;
+
+const isStyleObject = (value: unknown): value is StyleObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/*
+ * Families of properties whose first camelCase word does not name every shorthand they interact with,
+ * e.g. `columnCount` (set by `columns`) and `textWrapMode` (set by `whiteSpace`). Logical sizes set
+ * `width` or `height` depending on the writing mode, so they belong to both. Listing extra families
+ * only makes more rules conflict, which keeps their order.
+ */
+const propertyFamilyAliases: Record<string, string[]> = {
+  top: ["inset"],
+  right: ["inset"],
+  bottom: ["inset"],
+  left: ["inset"],
+  row: ["gap"],
+  column: ["gap", "columns"],
+  grid: ["grid", "gap"],
+  line: ["font"],
+  align: ["place"],
+  justify: ["place"],
+  white: ["white", "text"],
+  vertical: ["vertical", "alignment", "baseline"],
+  word: ["word", "overflow"],
+  page: ["page", "break"],
+  inline: ["inline", "width", "height"],
+  block: ["block", "width", "height"],
+};
+
+/**
+ * Matches selectors that some browsers reject: vendor-prefixed pseudo-classes and pseudo-elements, and
+ * pseudo-classes that are not supported everywhere yet. A browser drops a whole rule when one selector
+ * of its list is invalid, so these selectors are never comma-joined with others.
+ */
+const unsupportedSelectorPattern =
+  /::?-|:(?:has|host|host-context|state|popover-open|open|user-valid|user-invalid|modal|target-current|active-view-transition)(?![\w-])/i;
+
+/**
+ * Returns the property families a declaration belongs to, so that shorthands and their longhands
+ * (e.g. `margin` and `marginTop`) are treated as the same property.
+ */
+function getPropertyFamilies(property: string): string[] {
+  if (property.startsWith("--")) return [property];
+
+  const unprefixed = property.replace(/^(Webkit|Moz|ms|O)(?=[A-Z])/, "");
+  const firstWord = unprefixed.replace(/[A-Z].*$/, "").toLowerCase();
+  return propertyFamilyAliases[firstWord] ?? [firstWord];
+}
+
+/**
+ * Collects the property families declared by a style, including those inside at-rule blocks and `vars`.
+ */
+function collectPropertyFamilies(style: StyleObject, families = new Set<string>()): Set<string> {
+  for (const [key, value] of Object.entries(style)) {
+    if (key.startsWith("@")) {
+      if (isStyleObject(value)) {
+        for (const conditionStyle of Object.values(value)) {
+          if (isStyleObject(conditionStyle)) collectPropertyFamilies(conditionStyle, families);
+        }
+      }
+    } else if (key === "vars") {
+      if (isStyleObject(value)) {
+        for (const varName of Object.keys(value)) families.add(varName);
+      }
+    } else {
+      for (const family of getPropertyFamilies(key)) families.add(family);
+    }
+  }
+  return families;
+}
+
+/**
+ * Whether two styles may set the same property, in which case their relative order matters.
+ */
+export function stylesConflict(a: StyleObject, b: StyleObject): boolean {
+  const familiesA = collectPropertyFamilies(a);
+  const familiesB = collectPropertyFamilies(b);
+  if (familiesA.has("all") || familiesB.has("all")) return familiesA.size > 0 && familiesB.size > 0;
+
+  for (const family of familiesB) {
+    if (familiesA.has(family)) return true;
+  }
+  return false;
+}
+
+/**
+ * Merges `b` into `a` as if `b` were declared after `a` on the same selector.
+ * Keys of `b` are moved to the end so that they still override shorthands declared in `a`.
+ */
+function mergeStyles(a: StyleObject, b: StyleObject): StyleObject {
+  const merged: StyleObject = { ...a };
+  for (const [key, value] of Object.entries(b)) {
+    const previous = merged[key];
+    delete merged[key];
+    merged[key] = isStyleObject(previous) && isStyleObject(value) ? mergeStyles(previous, value) : value;
+  }
+  return merged;
+}
+
+/**
+ * Finds the last rule in `rules` that `rule` can be folded into without changing the cascade,
+ * i.e. no rule in between sets any property that `rule` sets.
+ */
+function findFoldTarget(
+  rules: GlobalRecipeRule[],
+  rule: GlobalRecipeRule,
+  canFold: (target: GlobalRecipeRule) => boolean,
+): GlobalRecipeRule | undefined {
+  for (let index = rules.length - 1; index >= 0; index--) {
+    const candidate = rules[index];
+    if (canFold(candidate)) return candidate;
+    if (stylesConflict(candidate.style as StyleObject, rule.style as StyleObject)) return undefined;
+  }
+  return undefined;
+}
+
+const getSources = (rule: GlobalRecipeRule) => rule.sources ?? [rule.source];
+
+/**
+ * Consolidates planned rules without changing the cascade:
+ * 1. Rules targeting the same selector are merged, in source order.
+ * 2. Rules with deep-equal style bodies are combined into one rule with a comma-joined selector,
+ *    unless a selector is not supported by every browser.
+ *
+ * A rule is only moved up to an earlier one when no rule in between sets any of its properties.
+ */
+export function optimizeRules(rules: GlobalRecipeRule[]): GlobalRecipeRule[] {
+  const merged: GlobalRecipeRule[] = [];
+  for (const rule of rules) {
+    const target = findFoldTarget(merged, rule, (candidate) => candidate.selector === rule.selector);
+    if (target) {
+      target.style = mergeStyles(target.style as StyleObject, rule.style as StyleObject);
+      target.sources = [...getSources(target), ...getSources(rule)];
+    } else {
+      merged.push({ ...rule });
+    }
+  }
+
+  const grouped: GlobalRecipeRule[] = [];
+  for (const rule of merged) {
+    const body = JSON.stringify(rule.style);
+    const groupable = !unsupportedSelectorPattern.test(rule.selector);
+    const target = findFoldTarget(
+      grouped,
+      rule,
+      (candidate) =>
+        groupable && !unsupportedSelectorPattern.test(candidate.selector) && JSON.stringify(candidate.style) === body,
+    );
+    if (target) {
+      target.selector = `${target.selector}, ${rule.selector}`;
+      target.sources = [...getSources(target), ...getSources(rule)];
+    } else {
+      grouped.push(rule);
+    }
+  }
+
+  return grouped;
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { configureGlobalRecipe, globalRecipe } from "./globalRecipe";
+import { globalRecipes } from "./globalRecipes";
+import { getRegisteredGlobalRecipes } from "./registry";
+import { captureGlobalRules, clearRegisteredGlobalRecipes, createMockRecipe } from "./testing";
+
+vi.mock("@vanilla-extract/css", () => ({
+  globalStyle: vi.fn(),
+}));
+
+const buttonRecipe = createMockRecipe({
+  base: "button_base",
+  variants: { size: { sm: "button_size_sm", md: "button_size_md" } },
+});
+
+const registerIcons = () =>
+  globalRecipe({
+    recipe: buttonRecipe,
+    selectorGenerators: { "&": "& svg" },
+    variants: { size: { sm: { width: "16px" }, md: { width: "20px" } } },
+  });
+
+describe("registry", () => {
+  const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+  beforeEach(() => {
+    clearRegisteredGlobalRecipes();
+    warn.mockClear();
+  });
+
+  afterEach(() => {
+    configureGlobalRecipe({ duplicates: "warn" });
+  });
+
+  it("lists the calls registered for each recipe with their call sites", () => {
+    const cardRecipe = createMockRecipe({ base: "card_base", variants: {} });
+    registerIcons();
+    globalRecipes({
+      recipes: { card: cardRecipe, button: buttonRecipe },
+      selectorGenerators: { "&": ({ card, button }) => `${card} ${button}` },
+      base: { margin: 0 },
+    });
+
+    const registrations = getRegisteredGlobalRecipes();
+    expect(registrations.get(buttonRecipe)?.map(({ rules }) => rules.map(({ selector }) => selector))).toEqual([
+      [".button_size_sm svg", ".button_size_md svg"],
+      [".card_base .button_base"],
+    ]);
+    expect(registrations.get(cardRecipe)).toHaveLength(1);
+    expect(registrations.get(buttonRecipe)?.[0].callSite).toMatch(/registry\.test\.ts:17:\d+$/);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("warns when the same call registers its rules again", () => {
+    registerIcons();
+    registerIcons();
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toMatch(
+      /^globalRecipe: recipe "button_base" is registered again at .*registry\.test\.ts:17:\d+, repeating 2 rule\(s\)\./,
+    );
+  });
+
+  it("replaces the registrations of a module evaluated again later", async () => {
+    registerIcons();
+    // Hot module reloading evaluates the module again after the first evaluation has finished
+    await new Promise((resolve) => setTimeout(resolve));
+    globalRecipe({
+      recipe: buttonRecipe,
+      selectorGenerators: { "&": "& svg" },
+      variants: { size: { sm: { width: "18px" } } },
+    });
+
+    expect(warn).not.toHaveBeenCalled();
+    expect(
+      getRegisteredGlobalRecipes()
+        .get(buttonRecipe)
+        ?.map(({ rules }) => rules.map(({ style }) => style)),
+    ).toEqual([[{ width: "18px" }]]);
+  });
+
+  it("warns when another call registers the same selector", () => {
+    registerIcons();
+    globalRecipe({
+      recipe: buttonRecipe,
+      selectorGenerators: { "&": "& svg" },
+      compoundVariants: [{ variants: { size: "sm" }, style: { height: "16px" } }],
+    });
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toMatch(
+      /^globalRecipe: selector ".button_size_sm svg" of recipe "button_base" registered at .*registry\.test\.ts:\d+:\d+ is already registered at .*registry\.test\.ts:17:\d+\./,
+    );
+  });
+
+  it("does not report selectors styled by several entries of one call", () => {
+    globalRecipe({
+      recipe: buttonRecipe,
+      selectorGenerators: { "&": "& svg" },
+      variants: { size: { sm: { width: "16px" } } },
+      compoundVariants: [{ variants: { size: "sm" }, style: { height: "16px" } }],
+    });
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("throws or ignores duplicates as configured", () => {
+    configureGlobalRecipe({ duplicates: "throw" });
+    registerIcons();
+    expect(() => registerIcons()).toThrow('globalRecipe: recipe "button_base" is registered again');
+
+    configureGlobalRecipe({ duplicates: "ignore" });
+    registerIcons();
+    expect(warn).not.toHaveBeenCalled();
+    expect(getRegisteredGlobalRecipes().get(buttonRecipe)).toHaveLength(3);
+  });
+
+  it("does not record captured calls", () => {
+    captureGlobalRules(registerIcons);
+    registerIcons();
+
+    expect(getRegisteredGlobalRecipes().get(buttonRecipe)).toHaveLength(1);
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
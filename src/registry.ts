@@ -0,0 +1,153 @@
+import type { GlobalRecipeRule } from "./globalRecipe";
+import type { VariantSource } from "./variantSource";
+
+/** How repeated and overlapping registrations are reported */
+export type DuplicateRegistrationMode = "ignore" | "warn" | "throw";
+
+/** A `globalRecipe` or `globalRecipes` call that registered rules */
+export interface GlobalRecipeRegistration {
+  /** Location of the call, e.g. `/src/button.css.ts:12:1`, or `"unknown location"` */
+  callSite: string;
+  /** The rules the call registered */
+  rules: GlobalRecipeRule[];
+}
+
+/** A registration with what the registry needs to report and replace it */
+interface RecordedRegistration extends GlobalRecipeRegistration {
+  recipes: VariantSource[];
+  /** The evaluation the call ran in, see `getEvaluation` */
+  evaluation: number;
+}
+
+const registrations: RecordedRegistration[] = [];
+/** First registration of each selector */
+const selectorRegistrations = new Map<string, RecordedRegistration>();
+
+let evaluation = 0;
+let evaluationEnding = false;
+
+/**
+ * Numbers the synchronous run a call happens in. Modules are evaluated synchronously, so calls of one
+ * evaluation share a number, and a module evaluated again later, e.g. by hot module reloading, gets a
+ * new one.
+ */
+function getEvaluation(): number {
+  if (!evaluationEnding) {
+    evaluationEnding = true;
+    queueMicrotask(() => {
+      evaluation++;
+      evaluationEnding = false;
+    });
+  }
+  return evaluation;
+}
+
+/** The file of a call site, e.g. `/src/button.css.ts` for `/src/button.css.ts:12:1` */
+const getCallSiteFile = (callSite: string): string | undefined =>
+  callSite === "unknown location" ? undefined : callSite.replace(/:\d+:\d+$/, "");
+
+/** Forgets the registrations a file made in earlier evaluations, as they are replaced by the current one */
+function replaceEarlierRegistrations(file: string, currentEvaluation: number): void {
+  for (let i = registrations.length - 1; i >= 0; i--) {
+    const registration = registrations[i];
+    if (registration.evaluation === currentEvaluation || getCallSiteFile(registration.callSite) !== file) continue;
+    registrations.splice(i, 1);
+    for (const { selector } of registration.rules) {
+      if (selectorRegistrations.get(selector) === registration) selectorRegistrations.delete(selector);
+    }
+  }
+}
+
+/**
+ * Returns the location of the code calling `fn`, for naming it in duplicate reports.
+ * Relies on `Error.captureStackTrace`, which Node, Bun and Chromium provide.
+ */
+export function getCallSite(fn: (...args: never[]) => unknown): string {
+  const holder: { stack?: string } = {};
+  Error.captureStackTrace?.(holder, fn);
+  const frame = holder.stack?.split("\n")[1]?.trim();
+  return frame?.replace(/^at (?:.* \((.*)\)|(.*))$/, "$1$2") ?? "unknown location";
+}
+
+/**
+ * Records the rules a call registered for its recipes, and reports selectors registered before: by the
+ * same call site in the same evaluation, e.g. when a module is evaluated twice, or by another call site
+ * when definitions overlap. Registrations a file made in earlier evaluations are replaced, so modules
+ * evaluated again by hot module reloading are not reported.
+ */
+export function recordRegistration(
+  recipes: VariantSource[],
+  rules: GlobalRecipeRule[],
+  callSite: string,
+  mode: DuplicateRegistrationMode,
+): void {
+  const label =
+    (recipes.length > 1 ? "recipes " : "recipe ") + recipes.map((recipe) => `"${recipe.classNames.base}"`).join(", ");
+  const registration: RecordedRegistration = { callSite, rules, recipes, evaluation: getEvaluation() };
+  const file = getCallSiteFile(callSite);
+  if (file !== undefined) replaceEarlierRegistrations(file, registration.evaluation);
+
+  const repeated: string[] = [];
+  const overlapping: { selector: string; previousCallSite: string }[] = [];
+
+  for (const { selector } of rules) {
+    const previous = selectorRegistrations.get(selector);
+    if (previous === undefined) {
+      selectorRegistrations.set(selector, registration);
+    } else if (previous === registration) {
+      // Several entries of one call may style the same selector
+      continue;
+    } else if (previous.callSite === callSite) {
+      repeated.push(selector);
+    } else {
+      overlapping.push({ selector, previousCallSite: previous.callSite });
+    }
+  }
+  registrations.push(registration);
+
+  if (mode === "ignore") return;
+  const messages: string[] = [];
+  if (repeated.length > 0) {
+    messages.push(
+      `globalRecipe: ${label} is registered again at ${callSite}, repeating ${repeated.length} rule(s). ` +
+        `Is the module evaluated more than once?`,
+    );
+  }
+  if (overlapping.length > 0) {
+    const [{ selector, previousCallSite }] = overlapping;
+    messages.push(
+      `globalRecipe: selector "${selector}" of ${label} registered at ${callSite} is already registered at ` +
+        `${previousCallSite}` +
+        (overlapping.length > 1 ? ` (and ${overlapping.length - 1} more selector(s))` : "") +
+        `. Merge the definitions, or make their selectors differ.`,
+    );
+  }
+  for (const message of messages) {
+    if (mode === "throw") throw new Error(message);
+    console.warn(message);
+  }
+}
+
+/**
+ * Lists the `globalRecipe` and `globalRecipes` calls registered so far, keyed by recipe. Calls on several
+ * recipes are listed under each of them.
+ *
+ * @example
+ * getRegisteredGlobalRecipes().get(buttonStyle);
+ * // [{ callSite: "/src/button.css.ts:12:1", rules: [{ selector: ".button_size_sm svg", ... }] }]
+ */
+export function getRegisteredGlobalRecipes(): Map<VariantSource, GlobalRecipeRegistration[]> {
+  const byRecipe = new Map<VariantSource, GlobalRecipeRegistration[]>();
+  for (const { recipes, callSite, rules } of registrations) {
+    for (const recipe of recipes) {
+      byRecipe.set(recipe, [...(byRecipe.get(recipe) ?? []), { callSite, rules }]);
+    }
+  }
+  return byRecipe;
+}
+
+/** Forgets every registration, e.g. between tests */
+export function clearRegisteredGlobalRecipes(): void {
+  registrations.length = 0;
+  selectorRegistrations.clear();
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { compileSelectorTemplate, isParseableSelector, splitSelectorList } from "./selectorTemplate";
+
+describe("isParseableSelector", () => {
+  it("accepts well-formed selectors", () => {
+    expect(isParseableSelector(".size_sm svg")).toBe(true);
+    expect(isParseableSelector(".size_sm input:checked + div")).toBe(true);
+    expect(isParseableSelector(":is(.size_sm, .size_md) > [data-slot=label]")).toBe(true);
+    expect(isParseableSelector('.size_sm [title="a, b ("]')).toBe(true);
+  });
+
+  it("rejects unbalanced brackets and quotes", () => {
+    expect(isParseableSelector(".size_sm [data-slot=label")).toBe(false);
+    expect(isParseableSelector(".size_sm:not(.disabled")).toBe(false);
+    expect(isParseableSelector(".size_sm:not(.disabled])")).toBe(false);
+    expect(isParseableSelector('.size_sm [title="a]')).toBe(false);
+  });
+
+  it("rejects empty selectors and trailing combinators", () => {
+    expect(isParseableSelector("")).toBe(false);
+    expect(isParseableSelector(".size_sm svg,")).toBe(false);
+    expect(isParseableSelector(".size_sm, , svg")).toBe(false);
+    expect(isParseableSelector(".size_sm >")).toBe(false);
+    expect(isParseableSelector(".size_sm input +")).toBe(false);
+  });
+
+  it("rejects rules, declarations and doubled delimiters", () => {
+    expect(isParseableSelector(".size_sm svg { color: red }")).toBe(false);
+    expect(isParseableSelector(".size_sm svg;")).toBe(false);
+    expect(isParseableSelector(".size_sm ..icon")).toBe(false);
+    expect(isParseableSelector(".size_sm:::hover")).toBe(false);
+    expect(isParseableSelector(".size_sm:is(.a, ..b)")).toBe(false);
+  });
+
+  it("accepts relative selectors only inside :has()", () => {
+    expect(isParseableSelector(".size_sm:has(> img)")).toBe(true);
+    expect(isParseableSelector("> .size_sm")).toBe(false);
+  });
+});
+
+describe("splitSelectorList", () => {
+  it("splits at commas outside of brackets and strings", () => {
+    expect(splitSelectorList(".size_sm svg")).toEqual([".size_sm svg"]);
+    expect(splitSelectorList(".size_sm svg, .size_sm img")).toEqual([".size_sm svg", ".size_sm img"]);
+    expect(splitSelectorList(':is(.a, .b) [title="a, b"], svg')).toEqual([':is(.a, .b) [title="a, b"]', "svg"]);
+  });
+});
+
+describe("compileSelectorTemplate", () => {
+  it("replaces every & with the variant selector", () => {
+    const generator = compileSelectorTemplate("& svg, &:hover svg", 'selectorGenerators["&"]');
+
+    expect(generator(".size_sm")).toBe(".size_sm svg, .size_sm:hover svg");
+  });
+
+  it("throws on templates without &", () => {
+    expect(() => compileSelectorTemplate("svg", 'selectorGenerators["&"]')).toThrowError(
+      'globalRecipe: selectorGenerators["&"] must contain "&" outside of strings. Got "svg"',
+    );
+    expect(() => compileSelectorTemplate('[title="&"] svg', 'selectorGenerators["&"]')).toThrowError(
+      'globalRecipe: selectorGenerators["&"] must contain "&" outside of strings. Got "[title="&"] svg"',
+    );
+  });
+
+  it("does not replace & inside strings", () => {
+    const generator = compileSelectorTemplate('& [data-x="a&b"]', 'selectorGenerators["&"]');
+
+    expect(generator(".size_sm")).toBe('.size_sm [data-x="a&b"]');
+  });
+
+  it("throws on templates with & only inside :not()", () => {
+    expect(() => compileSelectorTemplate("svg:not(&)", 'selectorGenerators["&"]')).toThrowError(
+      'globalRecipe: selectorGenerators["&"] only contains "&" inside :not(), so it never matches elements of the variant. Got "svg:not(&)"',
+    );
+    expect(compileSelectorTemplate("& svg:not(& .icon)", 'selectorGenerators["&"]')(".size_sm")).toBe(
+      ".size_sm svg:not(.size_sm .icon)",
+    );
+  });
+
+  it("throws on lists with a selector that does not contain &", () => {
+    expect(() => compileSelectorTemplate("& svg, svg", 'selectorGenerators["&"]')).toThrowError(
+      'globalRecipe: selectorGenerators["&"] must contain "&" outside of :not() in every selector of the list, or it styles elements outside of the variant. Got "& svg, svg"',
+    );
+    expect(() => compileSelectorTemplate("svg, &", 'selectorGenerators["&"]')).toThrowError(
+      'globalRecipe: selectorGenerators["&"] must contain "&" outside of :not() in every selector of the list, or it styles elements outside of the variant. Got "svg, &"',
+    );
+    expect(() => compileSelectorTemplate("& svg, img:not(&)", 'selectorGenerators["&"]')).toThrowError(
+      "in every selector of the list",
+    );
+    expect(compileSelectorTemplate(":is(&, .a) svg, & img", 'selectorGenerators["&"]')(".size_sm")).toBe(
+      ":is(.size_sm, .a) svg, .size_sm img",
+    );
+  });
+
+  it("throws when the expanded selector is invalid", () => {
+    const generator = compileSelectorTemplate("& input +", 'selectorGenerators["&:checked"]');
+
+    expect(() => generator(".size_sm")).toThrowError(
+      'globalRecipe: selectorGenerators["&:checked"] expands to an invalid selector ".size_sm input +"',
+    );
+    for (const template of ["& svg { color: red }", "& ..icon", "&:::hover", "& svg;"]) {
+      expect(() => compileSelectorTemplate(template, 'selectorGenerators["&"]')(".size_sm")).toThrowError(
+        "expands to an invalid selector",
+      );
+    }
+  });
+});
@@ -0,0 +1,205 @@
+import { AttributeAction, isTraversal, parse, SelectorType, type Selector } from "css-what";
+
+/** A selector with `&` in place of the variant selector, e.g. `"& input:checked + div"` */
+export type SelectorTemplate = `${string}&${string}`;
+
+/**
+ * Blanks out the content of quoted strings in a selector, so that it is not mistaken for selector syntax.
+ * The result has the same length, so indices found in it apply to the selector.
+ * Returns `undefined` if a string is not closed.
+ */
+function maskStrings(selector: string): string | undefined {
+  let masked = "";
+  let quote: string | undefined;
+
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i];
+    if (quote) {
+      if (char === "\\") {
+        // Blank out the escaped character with the backslash
+        masked += "__";
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+        masked += char;
+      } else {
+        masked += "_";
+      }
+    } else {
+      if (char === '"' || char === "'") quote = char;
+      masked += char;
+    }
+  }
+
+  return quote ? undefined : masked;
+}
+
+/** Indices of the top-level commas of a masked selector, outside of brackets */
+function findTopLevelCommas(masked: string): number[] {
+  const commas: number[] = [];
+  let depth = 0;
+
+  for (let i = 0; i < masked.length; i++) {
+    const char = masked[i];
+    if (char === "[" || char === "(") depth++;
+    else if (char === "]" || char === ")") depth--;
+    else if (char === "," && depth === 0) commas.push(i);
+  }
+
+  return commas;
+}
+
+/**
+ * Splits a selector list into its complex selectors, at commas outside of brackets and strings.
+ *
+ * @example
+ * splitSelectorList(".size_sm svg, :is(.a, .b) img"); // [".size_sm svg", ":is(.a, .b) img"]
+ */
+export function splitSelectorList(selector: string): string[] {
+  const masked = maskStrings(selector);
+  if (masked === undefined) return [selector];
+
+  const parts: string[] = [];
+  let start = 0;
+  for (const comma of findTopLevelCommas(masked)) {
+    parts.push(selector.slice(start, comma).trim());
+    start = comma + 1;
+  }
+  parts.push(selector.slice(start).trim());
+  return parts;
+}
+
+/** Whether every selector of a parsed list is non-empty and neither starts nor ends with a combinator */
+function isWellFormedList(selectors: Selector[][], relative = false): boolean {
+  return selectors.every((tokens) => {
+    const first = tokens[0];
+    const last = tokens[tokens.length - 1];
+    return (
+      first !== undefined && (relative || !isTraversal(first)) && !isTraversal(last) && tokens.every(isWellFormedToken)
+    );
+  });
+}
+
+/** Whether a token is well-formed, catching the doubled `.` and `:` that css-what reads into names */
+function isWellFormedToken(token: Selector): boolean {
+  switch (token.type) {
+    case SelectorType.Attribute:
+      // `..icon` parses as a class named ".icon"
+      return !(token.name === "class" && token.action === AttributeAction.Element && token.value.startsWith("."));
+    case SelectorType.PseudoElement:
+      // `:::hover` parses as a pseudo-element named ":hover"
+      return !token.name.startsWith(":");
+    case SelectorType.Pseudo:
+      // Selector arguments, e.g. of :is() and :not(). Only :has() takes relative selectors like `> img`
+      return !Array.isArray(token.data) || isWellFormedList(token.data, token.name === "has");
+    default:
+      return true;
+  }
+}
+
+/**
+ * Whether a selector list is well-formed, using the css-what parser. Rules, declarations, empty
+ * selectors and dangling combinators are rejected.
+ */
+export function isParseableSelector(selector: string): boolean {
+  let selectors: Selector[][];
+  try {
+    selectors = parse(selector);
+  } catch {
+    return false;
+  }
+
+  return selectors.length > 0 && isWellFormedList(selectors);
+}
+
+/** Collects the type selectors of a parsed selector list, including those in selector arguments */
+function collectTypeSelectors(selectors: Selector[][], names: string[]): string[] {
+  for (const token of selectors.flat()) {
+    if (token.type === SelectorType.Tag) names.push(token.name);
+    else if (token.type === SelectorType.Pseudo && Array.isArray(token.data)) collectTypeSelectors(token.data, names);
+  }
+  return names;
+}
+
+/**
+ * The element names used as type selectors in a selector list, e.g. `["article", "svg"]` for
+ * `"article :is(svg, .icon)"`. The selector must be parseable.
+ */
+export function getTypeSelectors(selector: string): string[] {
+  return collectTypeSelectors(parse(selector), []);
+}
+
+/** Indices of the `&` of a masked selector, and whether each is inside `:not()` */
+function findAmpersands(masked: string): { index: number; negated: boolean }[] {
+  const ampersands: { index: number; negated: boolean }[] = [];
+  // Whether each open parenthesis starts a :not()
+  const openParentheses: boolean[] = [];
+
+  for (let i = 0; i < masked.length; i++) {
+    const char = masked[i];
+    if (char === "(") {
+      openParentheses.push(/:not$/i.test(masked.slice(0, i)));
+    } else if (char === ")") {
+      openParentheses.pop();
+    } else if (char === "&") {
+      ampersands.push({ index: i, negated: openParentheses.includes(true) });
+    }
+  }
+
+  return ampersands;
+}
+
+/**
+ * Compiles a selector template into a selector generator.
+ * Every selector of the template list must contain `&` outside of quoted strings and `:not()`, so that
+ * it only matches elements of the variant. Only `&` outside of strings is replaced, and every expanded
+ * selector is checked with a selector parser.
+ *
+ * @param template - The selector template, e.g. `"& svg"`
+ * @param name - Description of the generator, used in error messages
+ *
+ * @example
+ * const generator = compileSelectorTemplate("& svg", 'selectorGenerators["&"]');
+ * generator(".button_size_sm"); // ".button_size_sm svg"
+ */
+export function compileSelectorTemplate(template: string, name: string): (variantSelector: string) => string {
+  const masked = maskStrings(template);
+  const ampersands = masked === undefined ? [] : findAmpersands(masked);
+  if (ampersands.length === 0) {
+    throw new Error(`globalRecipe: ${name} must contain "&" outside of strings. Got "${template}"`);
+  }
+  if (ampersands.every(({ negated }) => negated)) {
+    throw new Error(
+      `globalRecipe: ${name} only contains "&" inside :not(), so it never matches elements of the variant. ` +
+        `Got "${template}"`,
+    );
+  }
+
+  // Each selector of a list matches on its own, so each needs the variant, e.g. not "& svg, svg"
+  const listEnds = [...findTopLevelCommas(masked ?? ""), template.length];
+  const unscoped = listEnds.some(
+    (end, i) =>
+      !ampersands.some(({ index, negated }) => !negated && index < end && (i === 0 || index > listEnds[i - 1])),
+  );
+  if (unscoped) {
+    throw new Error(
+      `globalRecipe: ${name} must contain "&" outside of :not() in every selector of the list, ` +
+        `or it styles elements outside of the variant. Got "${template}"`,
+    );
+  }
+
+  // The template split at each "&", e.g. ["", " svg"] for "& svg"
+  const parts = [...ampersands, { index: template.length }].map(({ index }, i, indices) =>
+    template.slice(i === 0 ? 0 : indices[i - 1].index + 1, index),
+  );
+
+  return (variantSelector) => {
+    const selector = parts.join(variantSelector);
+
+    if (!isParseableSelector(selector)) {
+      throw new Error(`globalRecipe: ${name} expands to an invalid selector "${selector}"`);
+    }
+
+    return selector;
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { planGlobalRecipe } from "./globalRecipe";
+import { createMockRecipe } from "./testing";
+import { child, descendant, has, pseudoElement, rootState, sibling } from "./selectors";
+
+describe("selector helpers", () => {
+  it("builds selectors relative to the variant selector", () => {
+    expect(descendant("svg")(".size_sm")).toBe(".size_sm svg");
+    expect(child("[data-slot=icon]")(".size_sm")).toBe(".size_sm > [data-slot=icon]");
+    expect(sibling("div")(".size_sm")).toBe(".size_sm + div");
+    expect(rootState(":focus-within")(".size_sm")).toBe(".size_sm:focus-within");
+    expect(has("input:checked")(".size_sm")).toBe(".size_sm:has(input:checked)");
+    expect(pseudoElement("::after")(".size_sm")).toBe(".size_sm::after");
+  });
+
+  it("keeps every selector of a list relative to the variant selector", () => {
+    expect(descendant("svg, img")(".size_sm")).toBe(".size_sm :is(svg, img)");
+    expect(child('[title="a, b"], svg')(".size_sm")).toBe('.size_sm > :is([title="a, b"], svg)');
+    expect(sibling("div, span", child("svg"))(".size_sm")).toBe(".size_sm + :is(div, span) > svg");
+    expect(rootState(":hover, :focus-visible")(".size_sm")).toBe(".size_sm:is(:hover, :focus-visible)");
+    expect(has("> img, svg")(".size_sm")).toBe(".size_sm:has(> img, svg)");
+  });
+
+  it("composes helpers from the root outwards", () => {
+    expect(rootState(":focus-within", descendant("svg"))(".size_sm")).toBe(".size_sm:focus-within svg");
+    expect(descendant("[data-slot=trigger]", child("svg"))(".size_sm")).toBe(".size_sm [data-slot=trigger] > svg");
+    expect(has("input:checked", sibling("div", pseudoElement("::before")))(".size_sm")).toBe(
+      ".size_sm:has(input:checked) + div::before",
+    );
+  });
+
+  it("plugs into selectorGenerators", () => {
+    const buttonRecipe = createMockRecipe({ base: "button_base", variants: { size: { sm: "button_size_sm" } } });
+
+    const rules = planGlobalRecipe({
+      recipe: buttonRecipe,
+      selectorGenerators: {
+        "&": descendant("svg"),
+        "&:focus": rootState(":focus-within", descendant("svg")),
+      },
+      variants: {
+        size: { sm: { width: "16px", selectors: { "&:focus": { fill: "blue" } } } },
+      },
+    });
+
+    expect(rules.map(({ selector }) => selector)).toEqual([".button_size_sm svg", ".button_size_sm:focus-within svg"]);
+  });
+});
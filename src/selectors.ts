@@ -0,0 +1,85 @@
+import { splitSelectorList } from "./selectorTemplate";
+
+/** Receives the variant class selector and returns the full CSS selector */
+export type SelectorGenerator = (variantSelector: string) => string;
+
+const identity: SelectorGenerator = (selector) => selector;
+
+/** Wraps a selector list in `:is()`, so that what is prepended to it applies to every selector of the list */
+const groupList = (selector: string): string =>
+  splitSelectorList(selector).length > 1 ? `:is(${selector})` : selector;
+
+/**
+ * Targets descendants of the element with the variant class.
+ * A selector list is wrapped in `:is()`, so every selector of it stays under the variant.
+ *
+ * @param selector - Selector of the descendants
+ * @param then - Generator applied to the resulting selector, for further targeting
+ *
+ * @example
+ * descendant("svg"); // (v) => `${v} svg`
+ * descendant("[data-slot=trigger]", child("svg")); // (v) => `${v} [data-slot=trigger] > svg`
+ * descendant("svg, img"); // (v) => `${v} :is(svg, img)`
+ */
+export const descendant =
+  (selector: string, then: SelectorGenerator = identity): SelectorGenerator =>
+  (variantSelector) =>
+    then(`${variantSelector} ${groupList(selector)}`);
+
+/**
+ * Targets direct children of the element with the variant class.
+ *
+ * @example
+ * child("[data-slot=icon]"); // (v) => `${v} > [data-slot=icon]`
+ */
+export const child =
+  (selector: string, then: SelectorGenerator = identity): SelectorGenerator =>
+  (variantSelector) =>
+    then(`${variantSelector} > ${groupList(selector)}`);
+
+/**
+ * Targets the sibling directly following the element with the variant class.
+ *
+ * @example
+ * sibling("div"); // (v) => `${v} + div`
+ */
+export const sibling =
+  (selector: string, then: SelectorGenerator = identity): SelectorGenerator =>
+  (variantSelector) =>
+    then(`${variantSelector} + ${groupList(selector)}`);
+
+/**
+ * Matches the element with the variant class only in the given state, e.g. `:hover`, `:focus-within`
+ * or an attribute selector. A list of states is wrapped in `:is()`.
+ *
+ * @example
+ * rootState(":focus-within", descendant("svg")); // (v) => `${v}:focus-within svg`
+ */
+export const rootState =
+  (state: string, then: SelectorGenerator = identity): SelectorGenerator =>
+  (variantSelector) =>
+    then(`${variantSelector}${groupList(state)}`);
+
+/**
+ * Matches the element with the variant class only if it contains an element matching the selector.
+ * The selector is a relative selector list, e.g. `"> img, svg"`, as `:has()` takes lists as is.
+ *
+ * @example
+ * has("input:checked", descendant("svg")); // (v) => `${v}:has(input:checked) svg`
+ */
+export const has =
+  (selector: string, then: SelectorGenerator = identity): SelectorGenerator =>
+  (variantSelector) =>
+    then(`${variantSelector}:has(${selector})`);
+
+/**
+ * Targets a pseudo-element. As pseudo-elements end a selector, this is the last helper of a chain.
+ *
+ * @example
+ * pseudoElement("::after"); // (v) => `${v}::after`
+ * descendant("label", pseudoElement("::before")); // (v) => `${v} label::before`
+ */
+export const pseudoElement =
+  (pseudo: `::${string}`): SelectorGenerator =>
+  (variantSelector) =>
+    `${variantSelector}${pseudo}`;
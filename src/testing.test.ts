@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { globalRecipe } from "./globalRecipe";
+import { globalRecipes } from "./globalRecipes";
+import { captureGlobalRules, createMockRecipe, globalRecipeMatchers, type GlobalRecipeMatchers } from "./testing";
+
+declare module "vitest" {
+  interface Assertion<T> {
+    toContainRule: GlobalRecipeMatchers<T>["toContainRule"];
+  }
+}
+
+expect.extend(globalRecipeMatchers);
+
+const buttonRecipe = createMockRecipe({
+  base: "button_base",
+  variants: {
+    size: { sm: "button_size_sm", md: "button_size_md" },
+    disabled: { true: "button_disabled_true", false: "button_disabled_false" },
+  },
+});
+
+describe("createMockRecipe", () => {
+  it("returns the base class followed by the selected variant classes", () => {
+    expect(buttonRecipe()).toBe("button_base");
+    expect(buttonRecipe({ size: "sm", disabled: true })).toBe("button_base button_size_sm button_disabled_true");
+    expect(buttonRecipe.variants()).toEqual(["size", "disabled"]);
+    expect(buttonRecipe.classNames.variants.size.md).toBe("button_size_md");
+  });
+});
+
+describe("captureGlobalRules", () => {
+  it("records rules instead of registering them with globalStyle", () => {
+    const rules = captureGlobalRules(() => {
+      globalRecipe({
+        recipe: buttonRecipe,
+        selectorGenerators: { "&": "& svg" },
+        base: { flexShrink: 0 },
+        variants: { size: { sm: { width: "16px", height: "16px" } } },
+      });
+    });
+
+    expect(rules).toEqual([
+      { selector: ".button_base svg", style: { flexShrink: 0 }, source: { type: "base", selectorKey: "&" } },
+      {
+        selector: ".button_size_sm svg",
+        style: { width: "16px", height: "16px" },
+        source: { type: "variant", variant: "size", value: "sm", selectorKey: "&" },
+      },
+    ]);
+  });
+
+  it("records globalRecipes calls and nested captures", () => {
+    let inner: unknown[] = [];
+    const outer = captureGlobalRules(() => {
+      globalRecipe({ recipe: buttonRecipe, selectorGenerators: { "&": "& svg" }, base: { flexShrink: 0 } });
+      inner = captureGlobalRules(() => {
+        globalRecipes({
+          recipes: { button: buttonRecipe },
+          selectorGenerators: { "&": ({ button }) => `${button} + label` },
+          base: { marginLeft: "4px" },
+        });
+      });
+    });
+
+    expect(inner).toHaveLength(1);
+    expect(outer.map(({ selector }) => selector)).toEqual([".button_base svg", ".button_base + label"]);
+  });
+
+  it("waits for asynchronous callbacks and stops capturing on errors", async () => {
+    const rules = await captureGlobalRules(async () => {
+      await Promise.resolve();
+      globalRecipe({ recipe: buttonRecipe, selectorGenerators: { "&": "& svg" }, base: { flexShrink: 0 } });
+    });
+    expect(rules).toHaveLength(1);
+
+    expect(() =>
+      captureGlobalRules(() => {
+        throw new Error("failed");
+      }),
+    ).toThrow("failed");
+    expect(captureGlobalRules(() => {})).toEqual([]);
+  });
+});
+
+describe("toContainRule", () => {
+  const rules = captureGlobalRules(() => {
+    globalRecipe({
+      recipe: buttonRecipe,
+      selectorGenerators: { "&": "& svg" },
+      variants: { size: { sm: { width: "16px", height: "16px" } } },
+    });
+  });
+
+  it("matches a selector and a subset of its style", () => {
+    expect(rules).toContainRule(".button_size_sm svg");
+    expect(rules).toContainRule(".button_size_sm svg", { width: "16px" });
+    expect(rules).not.toContainRule(".button_size_sm svg", { width: "20px" });
+    expect(rules).not.toContainRule(".button_size_md svg");
+  });
+
+  it("lists what was captured on failure", () => {
+    expect(() => expect(rules).toContainRule(".button_size_md svg")).toThrow(
+      /Expected rules to contain a rule ".button_size_md svg", but the selectors were:\n {2}".button_size_sm svg"/,
+    );
+    expect(() => expect(rules).toContainRule(".button_size_sm svg", { width: "20px" })).toThrow(
+      /but its styles were:\n.*"height": "16px",\n.*"width": "16px"/s,
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import type { globalStyle } from "@vanilla-extract/css";
+import type { RuntimeFn } from "@vanilla-extract/recipes";
+import { ruleSink, type GlobalRecipeRule } from "./globalRecipe";
+
+export { clearRegisteredGlobalRecipes } from "./registry";
+
+type GlobalStyleRule = Parameters<typeof globalStyle>[1];
+
+/**
+ * Creates a recipe function with the given class names, for testing without a vanilla-extract build.
+ * Calling it returns the base class followed by the classes of the selected variants.
+ *
+ * @example
+ * const button = createMockRecipe({
+ *   base: "button_base",
+ *   variants: { size: { sm: "button_size_sm", md: "button_size_md" } },
+ * });
+ *
+ * button({ size: "sm" }); // "button_base button_size_sm"
+ */
+export function createMockRecipe<Variants extends Record<string, Record<string, string>>>(options: {
+  base: string;
+  variants: Variants;
+}): RuntimeFn<Variants> {
+  const fn = (selection: Record<string, string | boolean | undefined> = {}) =>
+    [
+      options.base,
+      ...Object.entries(selection).map(([variantName, value]) =>
+        value === undefined ? undefined : options.variants[variantName]?.[String(value)],
+      ),
+    ]
+      .filter(Boolean)
+      .join(" ");
+  fn.variants = () => Object.keys(options.variants);
+  fn.classNames = { base: options.base, variants: options.variants };
+  return fn as RuntimeFn<Variants>;
+}
+
+/**
+ * Records the rules `globalRecipe` and `globalRecipes` calls register while running `callback`,
+ * instead of passing them to `globalStyle`. No `vi.mock` or file scope is needed. Returns a promise
+ * when `callback` does, e.g. to capture the calls of a dynamically imported `.css.ts` module.
+ *
+ * @example
+ * const rules = captureGlobalRules(() => {
+ *   globalRecipe({ recipe: button, selectorGenerators: { "&": "& svg" }, base: { flexShrink: 0 } });
+ * });
+ * // [{ selector: ".button_base svg", style: { flexShrink: 0 }, source: { type: "base", selectorKey: "&" } }]
+ */
+export function captureGlobalRules(callback: () => Promise<unknown>): Promise<GlobalRecipeRule[]>;
+export function captureGlobalRules(callback: () => unknown): GlobalRecipeRule[];
+export function captureGlobalRules(callback: () => unknown): GlobalRecipeRule[] | Promise<GlobalRecipeRule[]> {
+  const rules: GlobalRecipeRule[] = [];
+  const previousCapture = ruleSink.capture;
+  ruleSink.capture = (rule) => {
+    rules.push(rule);
+    previousCapture?.(rule);
+  };
+  const restore = () => {
+    ruleSink.capture = previousCapture;
+  };
+
+  let result: unknown;
+  try {
+    result = callback();
+  } catch (error) {
+    restore();
+    throw error;
+  }
+  if (result instanceof Promise) {
+    return result.then(
+      () => {
+        restore();
+        return rules;
+      },
+      (error: unknown) => {
+        restore();
+        throw error;
+      },
+    );
+  }
+  restore();
+  return rules;
+}
+
+/** The parts of the Vitest and Jest matcher context the matchers use */
+interface MatcherContext {
+  equals(a: unknown, b: unknown): boolean;
+  utils: {
+    printExpected(value: unknown): string;
+    printReceived(value: unknown): string;
+  };
+}
+
+/** Types of the matchers in `globalRecipeMatchers`, for augmenting the `expect` types */
+export interface GlobalRecipeMatchers<R = unknown> {
+  /**
+   * Asserts that captured rules contain a rule with the selector, and if given, with the style
+   * properties. Properties not listed in `style` are ignored.
+   */
+  toContainRule(selector: string, style?: GlobalStyleRule): R;
+}
+
+/**
+ * Custom matchers for captured rules, for both Vitest and Jest.
+ *
+ * @example
+ * expect.extend(globalRecipeMatchers);
+ *
+ * expect(rules).toContainRule(".button_size_sm svg", { width: "16px" });
+ */
+export const globalRecipeMatchers = {
+  toContainRule(
+    this: MatcherContext,
+    received: Pick<GlobalRecipeRule, "selector" | "style">[],
+    selector: string,
+    style?: GlobalStyleRule,
+  ) {
+    const { printExpected, printReceived } = this.utils;
+    const candidates = received.filter((rule) => rule.selector === selector);
+    const pass = candidates.some(
+      (rule) =>
+        !style ||
+        Object.entries(style).every(([property, value]) =>
+          this.equals((rule.style as Record<string, unknown>)[property], value),
+        ),
+    );
+    const expected = style ? `${printExpected(selector)} with ${printExpected(style)}` : printExpected(selector);
+
+    return {
+      pass,
+      message: () =>
+        pass
+          ? `Expected rules not to contain a rule ${expected}`
+          : candidates.length > 0
+            ? `Expected rules to contain a rule ${expected}, but its styles were:\n` +
+              candidates.map((rule) => printReceived(rule.style)).join("\n")
+            : `Expected rules to contain a rule ${expected}, but the selectors were:\n` +
+              received.map((rule) => `  ${printReceived(rule.selector)}`).join("\n"),
+    };
+  },
+};
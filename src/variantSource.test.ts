@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { planGlobalRecipe } from "./globalRecipe";
+import { createMockRecipe } from "./testing";
+import { fromClassNames, fromRecipe, fromStyleVariants } from "./variantSource";
+
+describe("variant sources", () => {
+  it("reads the class names of a recipe", () => {
+    const buttonRecipe = createMockRecipe({ base: "button_base", variants: { size: { sm: "button_size_sm" } } });
+
+    expect(fromRecipe(buttonRecipe)).toEqual({
+      classNames: { base: "button_base", variants: { size: { sm: "button_size_sm" } } },
+    });
+  });
+
+  it("combines styleVariants results under a base class", () => {
+    const buttonSize = { sm: "buttonSize_sm", md: "buttonSize_md" };
+    const buttonTone = { neutral: "buttonTone_neutral", danger: "buttonTone_danger" };
+
+    expect(fromStyleVariants("button", { size: buttonSize, tone: buttonTone })).toEqual({
+      classNames: { base: "button", variants: { size: buttonSize, tone: buttonTone } },
+    });
+  });
+
+  it("can be used in place of a recipe", () => {
+    const styles = { button: "Button_button__x1", small: "Button_small__x2", large: "Button_large__x3" };
+
+    const rules = planGlobalRecipe({
+      recipe: fromClassNames({
+        base: styles.button,
+        variants: { size: { sm: styles.small, lg: styles.large } },
+      }),
+      selectorGenerators: {
+        "&": (v) => `${v} svg`,
+      },
+      base: { fill: "currentColor" },
+      compoundVariants: [
+        { variants: { size: "sm" }, style: { width: "16px" } },
+        { variants: { size: { not: "lg" } }, style: { flexShrink: 0 } },
+      ],
+    });
+
+    expect(rules.map(({ selector, style }) => [selector, style])).toEqual([
+      [".Button_button__x1 svg", { fill: "currentColor" }],
+      [".Button_small__x2 svg", { width: "16px" }],
+      [".Button_button__x1:not(.Button_large__x3) svg", { flexShrink: 0 }],
+    ]);
+  });
+});
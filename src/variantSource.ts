@@ -0,0 +1,63 @@
+import { type RuntimeFn } from "@vanilla-extract/recipes";
+import type { VariantGroups } from "./globalRecipe";
+
+/** Class names keyed by variant group and value, e.g. `{ size: { sm: "button_size_sm" } }` */
+type VariantClassNames = Record<string, Record<string, string>>;
+
+/**
+ * Where `globalRecipe` reads class names from: a base class, and a class per variant value.
+ * A vanilla-extract recipe function is a variant source as is.
+ */
+export interface VariantSource<Variants extends VariantGroups = VariantGroups> {
+  classNames: {
+    base: string;
+    variants: { [VariantGroup in keyof Variants]: { [VariantValue in keyof Variants[VariantGroup]]: string } };
+  };
+}
+
+/**
+ * Creates a variant source from a vanilla-extract recipe function.
+ * Recipes can be passed to `globalRecipe` directly; this only drops the function itself.
+ *
+ * @example
+ * fromRecipe(buttonStyle);
+ */
+export function fromRecipe<Variants extends VariantGroups>(recipe: RuntimeFn<Variants>): VariantSource<Variants> {
+  return { classNames: recipe.classNames };
+}
+
+/**
+ * Creates a variant source from named vanilla-extract `styleVariants` results.
+ *
+ * @param base - Class shared by every element of the component
+ * @param variants - `styleVariants` results, keyed by variant group
+ *
+ * @example
+ * const buttonSize = styleVariants({ sm: {...}, md: {...} });
+ *
+ * fromStyleVariants(buttonBase, { size: buttonSize });
+ */
+export function fromStyleVariants<Variants extends VariantClassNames>(
+  base: string,
+  variants: Variants,
+): VariantSource<Variants> {
+  return fromClassNames({ base, variants });
+}
+
+/**
+ * Creates a variant source from a plain class name object, e.g. one written against CSS Modules.
+ *
+ * @example
+ * fromClassNames({
+ *   base: styles.button,
+ *   variants: {
+ *     size: { sm: styles.buttonSm, md: styles.buttonMd },
+ *   },
+ * });
+ */
+export function fromClassNames<Variants extends VariantClassNames>(classNames: {
+  base: string;
+  variants: Variants;
+}): VariantSource<Variants> {
+  return { classNames: { base: classNames.base, variants: classNames.variants } };
+}
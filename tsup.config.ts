@@ -1,8 +1,10 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: ["src/index.ts", "src/testing.ts", "src/cli.ts", "src/eslintPlugin.ts"],
   format: ["cjs", "esm"],
+  // Shares one copy of the rule sink between the main and testing entry points, also in CommonJS
+  splitting: true,
   dts: true,
   clean: true,
   sourcemap: true,